@@ -1,5 +1,7 @@
+import crypto from 'crypto';
 import type { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
+import { createSession, findActiveSession } from './services/sessionService';
 
 const SESSION_COOKIE_NAME = 'tasklink_session';
 const SESSION_SECRET = process.env.SESSION_SECRET || 'dev-session-secret-change-me';
@@ -14,17 +16,39 @@ export interface SessionPayload {
   userId: string;
   email?: string | null;
   remember?: boolean;
+  // Id of the Session row backing this cookie.
+  sessionId?: string;
 }
 
-export function setSessionCookie(res: Response, payload: SessionPayload) {
+// Fields authMiddleware attaches to the request once the session cookie checks out.
+type AuthenticatedRequest = Request & {
+  userId?: string;
+  userEmail?: string | null;
+  sessionId?: string;
+};
+
+const REMEMBER_TTL_SECONDS = 60 * 60 * 24 * 30; // 30 days
+const DEFAULT_TTL_SECONDS = 60 * 60 * 24; // 1 day
+
+// Start a session: records it server-side (so it can be revoked) and sets the cookie.
+// Returns the session's CSRF token for the response body.
+export async function setSessionCookie(req: Request, res: Response, payload: SessionPayload): Promise<string> {
   const remember = !!payload.remember;
-  const maxAgeSeconds = remember ? 60 * 60 * 24 * 30 : undefined; // 30 days or session-only
+  const maxAgeSeconds = remember ? REMEMBER_TTL_SECONDS : undefined; // 30 days or session-only
+  const ttlSeconds = remember ? REMEMBER_TTL_SECONDS : DEFAULT_TTL_SECONDS;
+
+  const session = await createSession({
+    userId: payload.userId,
+    expiresAt: new Date(Date.now() + ttlSeconds * 1000),
+    userAgent: req.get('user-agent') ?? null,
+    ipAddress: req.ip ?? null,
+  });
 
   const token = jwt.sign(
-    { userId: payload.userId, email: payload.email ?? null },
+    { userId: payload.userId, email: payload.email ?? null, sid: session.id },
     SESSION_SECRET,
     {
-      expiresIn: remember ? '30d' : '1d',
+      expiresIn: ttlSeconds,
     },
   );
 
@@ -37,6 +61,8 @@ export function setSessionCookie(res: Response, payload: SessionPayload) {
     path: '/',
     maxAge: maxAgeSeconds ? maxAgeSeconds * 1000 : undefined,
   });
+
+  return createCsrfToken(session.id);
 }
 
 export function clearSessionCookie(res: Response) {
@@ -48,42 +74,96 @@ export function clearSessionCookie(res: Response) {
   });
 }
 
-export function getSessionFromRequest(req: Request): SessionPayload | null {
-  const raw = (req as any).cookies?.[SESSION_COOKIE_NAME] as string | undefined;
+// Check the session cookie's signature and that its Session row is still active.
+// Cookies issued before sessions were stored server-side have no `sid` and are rejected.
+async function loadSessionFromCookie(req: Request): Promise<SessionPayload | null> {
+  const raw = (req.cookies as Record<string, string> | undefined)?.[SESSION_COOKIE_NAME];
   if (!raw) return null;
+
+  let decoded: { userId: string; email?: string | null; sid?: string };
   try {
-    const decoded = jwt.verify(raw, SESSION_SECRET) as { userId: string; email?: string | null };
-    return {
-      userId: decoded.userId,
-      email: decoded.email ?? null,
-    };
+    decoded = jwt.verify(raw, SESSION_SECRET) as { userId: string; email?: string | null; sid?: string };
   } catch {
     return null;
   }
+  if (!decoded.sid) return null;
+
+  const session = await findActiveSession(decoded.sid, decoded.userId);
+  if (!session) return null;
+
+  return {
+    userId: decoded.userId,
+    email: decoded.email ?? null,
+    sessionId: session.id,
+  };
+}
+
+// The session resolved by authMiddleware for this request, if any.
+export function getSessionFromRequest(req: Request): SessionPayload | null {
+  const { userId, userEmail, sessionId } = req as AuthenticatedRequest;
+  if (!userId) return null;
+  return {
+    userId,
+    email: userEmail ?? null,
+    sessionId,
+  };
 }
 
 export function authMiddleware(req: Request, _res: Response, next: NextFunction) {
-  const session = getSessionFromRequest(req);
-  if (session) {
-    (req as any).userId = session.userId;
-    (req as any).userEmail = session.email ?? null;
-  }
-  next();
+  loadSessionFromCookie(req)
+    .then((session) => {
+      if (session) {
+        const authed = req as AuthenticatedRequest;
+        authed.userId = session.userId;
+        authed.userEmail = session.email ?? null;
+        authed.sessionId = session.sessionId;
+      }
+      next();
+    })
+    .catch(next);
 }
 
 export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  // authMiddleware has already validated the cookie and populated userId/email on the request.
   const session = getSessionFromRequest(req);
   if (!session) {
     return res.status(401).json({ error: 'Not authenticated' });
   }
-  // Ensure downstream handlers can still read userId/email from the request.
-  (req as any).userId = session.userId;
-  (req as any).userEmail = session.email ?? null;
+  return next();
+}
+
+// CSRF protection. The session cookie is SameSite=None, so browsers attach it to requests
+// from any site. Every state-changing request from a signed-in browser must therefore carry
+// the session's synchronizer token in X-CSRF-Token; other sites can't read it. The token is
+// an HMAC of the session id, so it needs no storage and dies with the session.
+const CSRF_HEADER = 'x-csrf-token';
+const CSRF_SAFE_METHODS = new Set(['GET', 'HEAD', 'OPTIONS']);
+// Callers that authenticate some other way and never carry the session cookie on purpose.
+const CSRF_EXEMPT_PATHS = ['/webhooks/'];
+
+export function createCsrfToken(sessionId: string): string {
+  return crypto.createHmac('sha256', SESSION_SECRET).update(`csrf:${sessionId}`).digest('base64url');
+}
+
+export function csrfProtection(req: Request, res: Response, next: NextFunction) {
+  if (CSRF_SAFE_METHODS.has(req.method) || CSRF_EXEMPT_PATHS.some((prefix) => req.path.startsWith(prefix))) {
+    return next();
+  }
+
+  // Without a session cookie there is nothing to forge (e.g. signing in).
+  const { sessionId } = req as AuthenticatedRequest;
+  if (!sessionId) return next();
+
+  const expected = Buffer.from(createCsrfToken(sessionId));
+  const provided = Buffer.from(req.get(CSRF_HEADER) ?? '');
+  if (expected.length !== provided.length || !crypto.timingSafeEqual(expected, provided)) {
+    return res.status(403).json({ error: 'Invalid or missing CSRF token. Reload the page and try again.' });
+  }
   return next();
 }
 
 export function getUserIdFromRequest(req: Request): string {
-  const userId = (req as any).userId as string | undefined;
+  const { userId } = req as AuthenticatedRequest;
   if (!userId) {
     throw new Error('User ID missing on request. Did you forget to use requireAuth?');
   }
@@ -91,11 +171,94 @@ export function getUserIdFromRequest(req: Request): string {
 }
 
 export function getUserEmailFromRequest(req: Request): string | null {
-  const email = (req as any).userEmail as string | undefined;
+  const email = (req as AuthenticatedRequest).userEmail;
   return email ?? null;
 }
 
-export function redirectToFrontend(res: Response) {
-  res.redirect(FRONTEND_URL);
+export function getSessionIdFromRequest(req: Request): string | null {
+  const { sessionId } = req as AuthenticatedRequest;
+  return sessionId ?? null;
+}
+
+// Link to the frontend, optionally with query parameters (e.g. `?canvas=connected`).
+export function buildFrontendUrl(params?: Record<string, string>): string {
+  const query = params ? new URLSearchParams(params).toString() : '';
+  return query ? `${FRONTEND_URL}?${query}` : FRONTEND_URL;
+}
+
+// Send the browser back to the frontend, optionally with query parameters describing
+// the outcome.
+export function redirectToFrontend(res: Response, params?: Record<string, string>) {
+  res.redirect(buildFrontendUrl(params));
+}
+
+// Public URL of this backend, used to build OAuth redirect URIs. Falls back to the
+// host of the current request when BACKEND_URL isn't set.
+export function getBackendUrl(req: Request): string {
+  const configured = process.env.BACKEND_URL;
+  if (configured) return configured.replace(/\/$/, '');
+  return `${req.protocol}://${req.get('host')}`;
+}
+
+const OAUTH_STATE_TTL_SECONDS = 10 * 60;
+
+export interface OAuthStatePayload {
+  // Tasklink user who started the flow, if they were signed in.
+  userId?: string | null;
+  // Extra values the callback needs (e.g. a nonce to check against the ID token).
+  [key: string]: unknown;
+}
+
+const oauthStateCookieName = (provider: string) => `tasklink_oauth_${provider}`;
+
+// Start an OAuth flow: returns a random `state` for the authorize URL and stores it,
+// with the given payload, in a short-lived signed cookie for the callback to check.
+export function createOAuthState(res: Response, provider: string, payload: OAuthStatePayload = {}): string {
+  const state = crypto.randomBytes(24).toString('base64url');
+  const token = jwt.sign({ ...payload, state, provider }, SESSION_SECRET, { expiresIn: OAUTH_STATE_TTL_SECONDS });
+
+  res.cookie(oauthStateCookieName(provider), token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    // The provider redirects back with a top-level GET, which Lax cookies survive.
+    sameSite: 'lax',
+    path: '/',
+    maxAge: OAUTH_STATE_TTL_SECONDS * 1000,
+  });
+
+  return state;
+}
+
+// Finish an OAuth flow: checks the `state` returned by the provider against the
+// cookie set by createOAuthState and returns its payload, or null if it doesn't match
+// or has expired. The cookie is single-use.
+export function consumeOAuthState(
+  req: Request,
+  res: Response,
+  provider: string,
+  state: string | undefined,
+): OAuthStatePayload | null {
+  const cookieName = oauthStateCookieName(provider);
+  const raw = (req.cookies as Record<string, string> | undefined)?.[cookieName];
+  res.clearCookie(cookieName, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+  });
+
+  if (!raw || !state) return null;
+  try {
+    const decoded = jwt.verify(raw, SESSION_SECRET) as OAuthStatePayload & { state?: string; provider?: string };
+    const expected = Buffer.from(String(decoded.state ?? ''));
+    const provided = Buffer.from(state);
+    const matches = expected.length === provided.length && crypto.timingSafeEqual(expected, provided);
+    if (decoded.provider !== provider || !matches) {
+      return null;
+    }
+    return decoded;
+  } catch {
+    return null;
+  }
 }
 
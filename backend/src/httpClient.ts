@@ -0,0 +1,172 @@
+import axios, { type AxiosRequestConfig, type AxiosResponse } from 'axios';
+
+// Shared HTTP client for the Canvas and Todoist APIs. On top of axios it adds:
+// - a timeout on every request;
+// - retries with exponential backoff and full jitter for network errors, 429 and 5xx,
+//   honouring Retry-After (Canvas signals throttling with a 403 instead);
+// - at most MAX_CONCURRENT_PER_HOST requests in flight per host;
+// - slowing down when Canvas's X-Rate-Limit-Remaining runs low.
+
+const DEFAULT_TIMEOUT_MS = 30 * 1000;
+const MAX_RETRIES = 4;
+const BASE_BACKOFF_MS = 500;
+const MAX_BACKOFF_MS = 20 * 1000;
+// Give up instead of waiting when the server asks for a longer pause than this.
+const MAX_RETRY_AFTER_MS = 60 * 1000;
+const MAX_CONCURRENT_PER_HOST = 4;
+// Canvas's throttle bucket holds 700 units; below this, space out requests to that host.
+const LOW_RATE_LIMIT_REMAINING = 100;
+const LOW_RATE_LIMIT_DELAY_MS = 1000;
+
+const RETRYABLE_STATUSES = new Set([429, 500, 502, 503, 504]);
+const IDEMPOTENT_METHODS = new Set(['get', 'head', 'options', 'put', 'delete']);
+
+// Per-caller request counters, e.g. one per sync run.
+export interface HttpStats {
+  requests: number;
+  retries: number;
+}
+
+export const createHttpStats = (): HttpStats => ({ requests: 0, retries: 0 });
+
+export interface HttpRequestConfig extends AxiosRequestConfig {
+  stats?: HttpStats;
+  // Retry this request even though its method isn't idempotent, e.g. a POST the
+  // server deduplicates (Todoist Sync API commands carry their own uuid).
+  retryable?: boolean;
+}
+
+interface HostState {
+  active: number;
+  waiting: Array<() => void>;
+  // No new request to this host starts before this time.
+  pausedUntil: number;
+}
+
+const hosts = new Map<string, HostState>();
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+function getHostState(url: string): HostState {
+  let host = 'unknown';
+  try {
+    host = new URL(url).host;
+  } catch {
+    // Relative or malformed URL: axios will report the real problem.
+  }
+  let state = hosts.get(host);
+  if (!state) {
+    state = { active: 0, waiting: [], pausedUntil: 0 };
+    hosts.set(host, state);
+  }
+  return state;
+}
+
+async function acquireSlot(state: HostState): Promise<void> {
+  if (state.active >= MAX_CONCURRENT_PER_HOST) {
+    await new Promise<void>((resolve) => state.waiting.push(resolve));
+  } else {
+    state.active += 1;
+  }
+  const pause = state.pausedUntil - Date.now();
+  if (pause > 0) await sleep(pause);
+}
+
+function releaseSlot(state: HostState) {
+  const next = state.waiting.shift();
+  if (next) {
+    // Hand the slot straight to the next waiter.
+    next();
+  } else {
+    state.active -= 1;
+  }
+}
+
+function headerValue(headers: unknown, name: string): string | null {
+  const value = (headers as Record<string, unknown> | undefined)?.[name];
+  return typeof value === 'string' || typeof value === 'number' ? String(value) : null;
+}
+
+// Retry-After is either a number of seconds or an HTTP date.
+function parseRetryAfter(value: string | null): number | null {
+  if (!value) return null;
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+function isCanvasThrottled(status: number, headers: unknown, data: unknown): boolean {
+  if (status !== 403) return false;
+  const remaining = headerValue(headers, 'x-rate-limit-remaining');
+  if (remaining !== null && Number(remaining) <= 0) return true;
+  return typeof data === 'string' && data.includes('Rate Limit Exceeded');
+}
+
+interface RetryPlan {
+  delayMs: number;
+  // The server is rate limiting us, so every request to the host should back off.
+  throttled: boolean;
+}
+
+// How long to wait before retrying `err`, or null if it shouldn't be retried.
+function planRetry(err: unknown, attempt: number): RetryPlan | null {
+  if (!axios.isAxiosError(err) || err.code === 'ERR_CANCELED') return null;
+
+  // Full jitter: anywhere between 0 and the exponential cap.
+  const backoff = Math.random() * Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** attempt);
+  const response = err.response;
+  if (!response) return { delayMs: backoff, throttled: false };
+
+  const throttled = response.status === 429 || isCanvasThrottled(response.status, response.headers, response.data);
+  if (!throttled && !RETRYABLE_STATUSES.has(response.status)) return null;
+
+  const retryAfter = parseRetryAfter(headerValue(response.headers, 'retry-after'));
+  if (retryAfter === null) return { delayMs: backoff, throttled };
+  if (retryAfter > MAX_RETRY_AFTER_MS) return null;
+  return { delayMs: retryAfter + Math.random() * BASE_BACKOFF_MS, throttled };
+}
+
+function noteRateLimitHeaders(state: HostState, headers: unknown) {
+  const remaining = headerValue(headers, 'x-rate-limit-remaining');
+  if (remaining !== null && Number(remaining) < LOW_RATE_LIMIT_REMAINING) {
+    state.pausedUntil = Math.max(state.pausedUntil, Date.now() + LOW_RATE_LIMIT_DELAY_MS);
+  }
+}
+
+export async function httpRequest<T>(config: HttpRequestConfig): Promise<AxiosResponse<T>> {
+  const { stats, retryable, ...axiosConfig } = config;
+  const method = (axiosConfig.method ?? 'get').toLowerCase();
+  const canRetry = retryable ?? IDEMPOTENT_METHODS.has(method);
+  const state = getHostState(axiosConfig.url ?? '');
+
+  for (let attempt = 0; ; attempt += 1) {
+    let retry: RetryPlan | null;
+    await acquireSlot(state);
+    try {
+      if (stats) stats.requests += 1;
+      const res = await axios.request<T>({ timeout: DEFAULT_TIMEOUT_MS, ...axiosConfig });
+      noteRateLimitHeaders(state, res.headers);
+      return res;
+    } catch (err) {
+      retry = canRetry && attempt < MAX_RETRIES ? planRetry(err, attempt) : null;
+      if (!retry) throw err;
+      if (stats) stats.retries += 1;
+      if (retry.throttled) {
+        // Make other requests to this host wait out the same pause.
+        state.pausedUntil = Math.max(state.pausedUntil, Date.now() + retry.delayMs);
+      }
+    } finally {
+      releaseSlot(state);
+    }
+    await sleep(retry.delayMs);
+  }
+}
+
+// axios-style shorthands.
+export const http = {
+  get: <T>(url: string, config: HttpRequestConfig = {}) => httpRequest<T>({ ...config, method: 'get', url }),
+  delete: <T>(url: string, config: HttpRequestConfig = {}) => httpRequest<T>({ ...config, method: 'delete', url }),
+  post: <T>(url: string, data?: unknown, config: HttpRequestConfig = {}) =>
+    httpRequest<T>({ ...config, method: 'post', url, data }),
+};
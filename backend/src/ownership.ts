@@ -0,0 +1,63 @@
+import type { Request, Response, NextFunction } from 'express';
+import { getSessionFromRequest } from './auth';
+import { prisma } from './prisma';
+
+// Resource ownership checks for routes that take ids from the client. Foreign ids are
+// treated exactly like missing ones (404), so the API never reveals whether another
+// user's course, assignment or sync run exists.
+
+export type OwnedResource = 'course' | 'assignment' | 'syncRun';
+
+const NOT_FOUND_MESSAGES: Record<OwnedResource, string> = {
+  course: 'Course not found',
+  assignment: 'Assignment not found',
+  syncRun: 'Sync run not found',
+};
+
+// How many of `ids` exist and belong to the user.
+function countOwned(resource: OwnedResource, userId: string, ids: string[]): Promise<number> {
+  switch (resource) {
+    case 'course':
+      return prisma.course.count({ where: { id: { in: ids }, userId } });
+    case 'assignment':
+      return prisma.assignment.count({ where: { id: { in: ids }, course: { userId } } });
+    case 'syncRun':
+      return prisma.syncRun.count({ where: { id: { in: ids }, userId } });
+  }
+}
+
+// True if every id belongs to the user (vacuously true for an empty list).
+export async function ownsAll(resource: OwnedResource, userId: string, ids: string[]): Promise<boolean> {
+  const unique = Array.from(new Set(ids));
+  if (unique.length === 0) return true;
+  return (await countOwned(resource, userId, unique)) === unique.length;
+}
+
+// Express middleware answering 404 unless the id(s) picked from the request all belong to
+// the signed-in user. Use after requireAuth and validate(), so `pick` sees parsed input.
+// Unlike rate limits this fails closed: if the check can't run, the request is refused.
+export function requireOwnership(
+  resource: OwnedResource,
+  pick: (req: Request) => string | string[] | null | undefined,
+) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const session = getSessionFromRequest(req);
+    if (!session) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const picked = pick(req);
+    const ids = picked == null ? [] : Array.isArray(picked) ? picked : [picked];
+
+    ownsAll(resource, session.userId, ids)
+      .then((owned) => {
+        if (owned) return next();
+        return res.status(404).json({ error: NOT_FOUND_MESSAGES[resource] });
+      })
+      .catch((err) => {
+        // eslint-disable-next-line no-console
+        console.error(`Ownership check failed for ${resource}`, err);
+        res.status(500).json({ error: 'Failed to check access' });
+      });
+  };
+}
@@ -0,0 +1,155 @@
+import type { Request, Response, NextFunction } from 'express';
+import { getSessionFromRequest } from './auth';
+import { prisma } from './prisma';
+
+export interface RateLimitOptions {
+  // Prefix for the bucket key, e.g. 'sync'.
+  name: string;
+  windowMs: number;
+  max: number;
+  // What to count requests by (user id, IP, email, ...). Returning null skips the limit.
+  key: (req: Request) => string | null;
+  message?: string;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  retryAfterSeconds: number;
+}
+
+// Delete expired buckets at most this often, from whichever request happens to come along.
+const CLEANUP_INTERVAL_MS = 60 * 60 * 1000;
+let lastCleanupAt = 0;
+
+function cleanupExpiredBuckets() {
+  const now = Date.now();
+  if (now - lastCleanupAt < CLEANUP_INTERVAL_MS) return;
+  lastCleanupAt = now;
+  prisma.rateLimitBucket.deleteMany({ where: { expiresAt: { lt: new Date(now) } } }).catch((err) => {
+    // eslint-disable-next-line no-console
+    console.error('Failed to clean up rate limit buckets', err);
+  });
+}
+
+// Count one hit against `key` in a fixed window and report whether it is within `max`.
+export async function hitRateLimit(key: string, windowMs: number, max: number): Promise<RateLimitResult> {
+  cleanupExpiredBuckets();
+  const now = new Date();
+  const expiresAt = new Date(now.getTime() + windowMs);
+
+  let bucket = await prisma.rateLimitBucket.upsert({
+    where: { key },
+    create: { key, count: 1, windowStart: now, expiresAt },
+    update: { count: { increment: 1 } },
+  });
+
+  if (bucket.expiresAt <= now) {
+    // The previous window is over: start a new one. Only one concurrent request wins the
+    // reset; the others re-read the fresh bucket.
+    await prisma.rateLimitBucket.updateMany({
+      where: { key, windowStart: bucket.windowStart },
+      data: { count: 1, windowStart: now, expiresAt },
+    });
+    bucket = await prisma.rateLimitBucket.findUniqueOrThrow({ where: { key } });
+  }
+
+  const retryAfterSeconds = Math.max(1, Math.ceil((bucket.expiresAt.getTime() - now.getTime()) / 1000));
+  return { allowed: bucket.count <= max, retryAfterSeconds };
+}
+
+export function sendTooManyRequests(res: Response, retryAfterSeconds: number, message: string) {
+  res.setHeader('Retry-After', String(retryAfterSeconds));
+  return res.status(429).json({ error: message, retryAfterSeconds });
+}
+
+// Express middleware enforcing a RateLimitOptions limit. If the database is unavailable the
+// request is let through; the route itself will report the real problem.
+export function rateLimit(options: RateLimitOptions) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const key = options.key(req);
+    if (!key) return next();
+
+    hitRateLimit(`${options.name}:${key}`, options.windowMs, options.max)
+      .then((result) => {
+        if (result.allowed) return next();
+        return sendTooManyRequests(
+          res,
+          result.retryAfterSeconds,
+          options.message ?? 'Too many requests. Please try again later.',
+        );
+      })
+      .catch((err) => {
+        // eslint-disable-next-line no-console
+        console.error(`Rate limit check failed for ${options.name}`, err);
+        next();
+      });
+  };
+}
+
+// Key helpers for rate limits.
+export const byIp = (req: Request) => `ip:${req.ip ?? 'unknown'}`;
+export const byUser = (req: Request) => {
+  const session = getSessionFromRequest(req);
+  return session ? `user:${session.userId}` : null;
+};
+export const byBodyEmail = (req: Request) => {
+  const email = (req.body as { email?: unknown } | undefined)?.email;
+  return typeof email === 'string' && email.trim() ? `email:${email.trim().toLowerCase()}` : null;
+};
+
+// Progressive lockout after repeated failed sign-ins to the same account: the first few
+// failures are free, then each further failure doubles the lockout, up to an hour.
+// Failures are forgotten after a day without any.
+const FREE_LOGIN_FAILURES = 5;
+const BASE_LOCKOUT_MS = 60 * 1000;
+const MAX_LOCKOUT_MS = 60 * 60 * 1000;
+const FAILURE_MEMORY_MS = 24 * 60 * 60 * 1000;
+
+const loginThrottleKey = (email: string) => `email:${email.toLowerCase()}`;
+
+// Seconds until the account may try again, or 0 if it isn't locked.
+export async function getLoginLockout(email: string): Promise<number> {
+  const throttle = await prisma.loginThrottle.findUnique({ where: { key: loginThrottleKey(email) } });
+  if (!throttle?.lockedUntil) return 0;
+  const remainingMs = throttle.lockedUntil.getTime() - Date.now();
+  return remainingMs > 0 ? Math.ceil(remainingMs / 1000) : 0;
+}
+
+// Returns the new lockout in seconds (0 if still within the free attempts). The counter
+// is incremented atomically, so a burst of parallel guesses counts every one of them.
+export async function recordLoginFailure(email: string): Promise<number> {
+  const key = loginThrottleKey(email);
+  const now = new Date();
+
+  // Forget failures older than a day. The condition makes the reset happen once even if
+  // several requests see the stale counter: the first one moves lastFailureAt forward.
+  await prisma.loginThrottle.updateMany({
+    where: { key, lastFailureAt: { lt: new Date(now.getTime() - FAILURE_MEMORY_MS) } },
+    data: { failures: 0, lastFailureAt: now, lockedUntil: null },
+  });
+
+  const { failures } = await prisma.loginThrottle.upsert({
+    where: { key },
+    create: { key, failures: 1, lastFailureAt: now },
+    update: { failures: { increment: 1 }, lastFailureAt: now },
+  });
+
+  const lockoutMs =
+    failures >= FREE_LOGIN_FAILURES
+      ? Math.min(BASE_LOCKOUT_MS * 2 ** (failures - FREE_LOGIN_FAILURES), MAX_LOCKOUT_MS)
+      : 0;
+  if (lockoutMs > 0) {
+    const lockedUntil = new Date(now.getTime() + lockoutMs);
+    // Never shorten a longer lockout set by a concurrent failure.
+    await prisma.loginThrottle.updateMany({
+      where: { key, OR: [{ lockedUntil: null }, { lockedUntil: { lt: lockedUntil } }] },
+      data: { lockedUntil },
+    });
+  }
+
+  return Math.ceil(lockoutMs / 1000);
+}
+
+export async function clearLoginFailures(email: string): Promise<void> {
+  await prisma.loginThrottle.deleteMany({ where: { key: loginThrottleKey(email) } });
+}
@@ -0,0 +1,218 @@
+import { z } from 'zod';
+import { isValidTimeZone } from './timezone';
+import { MAX_AUTO_SYNC_INTERVAL_MINUTES } from './services/autoSyncService';
+import { CANVAS_ITEM_TYPES, type CanvasItemType } from './services/canvasService';
+import {
+  COURSE_NAME_PLACEHOLDER,
+  CONFLICT_POLICIES,
+  TODOIST_COLORS,
+  type ConflictPolicy,
+} from './services/syncSettingsService';
+
+// Request schemas for every route in server.ts, applied with `validate()` from
+// validation.ts. Handlers can rely on req.body / req.query / req.params matching the
+// inferred types exported below.
+
+const canvasItemType = z.enum(CANVAS_ITEM_TYPES as [CanvasItemType, ...CanvasItemType[]]);
+const conflictPolicy = z.enum(CONFLICT_POLICIES as [ConflictPolicy, ...ConflictPolicy[]]);
+const id = z.string().trim().min(1, 'is required');
+const timeZone = z.string().trim().refine(isValidTimeZone, (value) => ({ message: `Unknown timezone "${value}"` }));
+
+// --- Auth ---
+
+export const registerBody = z.object({
+  email: z.string().trim().email('must be a valid email address'),
+  password: z.string().min(1, 'is required'),
+  name: z.string().trim().max(200).optional(),
+  remember: z.boolean().optional(),
+});
+export type RegisterBody = z.infer<typeof registerBody>;
+
+export const loginBody = z.object({
+  email: z.string().trim().min(1, 'is required'),
+  password: z.string().min(1, 'is required'),
+  remember: z.boolean().optional(),
+});
+export type LoginBody = z.infer<typeof loginBody>;
+
+export const passwordResetRequestBody = z.object({
+  email: z.string().trim().min(1, 'is required'),
+});
+export type PasswordResetRequestBody = z.infer<typeof passwordResetRequestBody>;
+
+export const passwordResetConfirmBody = z.object({
+  token: z.string().min(1, 'is required'),
+  password: z.string().min(1, 'is required'),
+});
+export type PasswordResetConfirmBody = z.infer<typeof passwordResetConfirmBody>;
+
+export const verifyEmailBody = z.object({
+  token: z.string().min(1, 'is required'),
+});
+export type VerifyEmailBody = z.infer<typeof verifyEmailBody>;
+
+export const oauthCallbackQuery = z.object({
+  code: z.string().optional(),
+  state: z.string().optional(),
+  error: z.string().optional(),
+});
+export type OAuthCallbackQuery = z.infer<typeof oauthCallbackQuery>;
+
+export const googleStartQuery = z.object({
+  remember: z.enum(['0', '1', 'true', 'false']).optional(),
+});
+export type GoogleStartQuery = z.infer<typeof googleStartQuery>;
+
+// --- Canvas ---
+
+export const canvasConfigBody = z.object({
+  baseUrl: z.string().trim().url('must be a URL such as https://your-campus.instructure.com'),
+  accessToken: z.string().trim().min(1, 'is required'),
+});
+export type CanvasConfigBody = z.infer<typeof canvasConfigBody>;
+
+// An empty or null timezone clears the override.
+export const canvasTimeZoneBody = z.object({
+  timezone: z.union([z.literal(''), timeZone]).nullable().optional(),
+});
+export type CanvasTimeZoneBody = z.infer<typeof canvasTimeZoneBody>;
+
+const daysAhead = z.number().int().min(0).nullable().optional();
+
+// Which item types to import is a saved sync setting, shared with auto-sync.
+export const fetchAssignmentsBody = z.object({
+  daysAhead,
+  includeNoDueDate: z.boolean().optional(),
+});
+export type FetchAssignmentsBody = z.infer<typeof fetchAssignmentsBody>;
+
+// --- Courses ---
+
+export const mapProjectBody = z.object({
+  courseId: id,
+  todoistProjectId: z.string().nullable().optional(),
+});
+export type MapProjectBody = z.infer<typeof mapProjectBody>;
+
+// null clears the per-course override.
+export const courseDueTimeBody = z.object({
+  courseId: id,
+  useDueTime: z.boolean().nullable(),
+});
+export type CourseDueTimeBody = z.infer<typeof courseDueTimeBody>;
+
+// Without courseIds every course of the user that has no Todoist project is provisioned.
+export const provisionProjectsBody = z.object({
+  courseIds: z.array(id).optional(),
+});
+export type ProvisionProjectsBody = z.infer<typeof provisionProjectsBody>;
+
+// --- Todoist ---
+
+export const todoistConfigBody = z.object({
+  accessToken: z.string().trim().min(1, 'is required'),
+});
+export type TodoistConfigBody = z.infer<typeof todoistConfigBody>;
+
+const priorityRange = z.object({
+  enabled: z.boolean().optional(),
+  to: z.number().int().min(1).max(5).optional(),
+  todoistPriority: z.union([z.literal(1), z.literal(2), z.literal(3), z.literal(4)]).optional(),
+});
+
+export const prioritySettings = z.object({
+  p1: priorityRange.optional(),
+  p2: priorityRange.optional(),
+  p3: priorityRange.optional(),
+  p4: priorityRange.optional(),
+});
+export type PrioritySettingsBody = z.infer<typeof prioritySettings>;
+
+const courseIds = z.array(id).min(1, 'must be a non-empty array');
+
+// The preview and the sync take the same planning settings, so the preview shows what
+// the sync will do.
+const syncPlanFields = {
+  courseIds,
+  prioritySettings: prioritySettings.optional(),
+  detectionSettings: z
+    .object({
+      daysAhead,
+      includeNoDueDate: z.boolean().optional(),
+    })
+    .optional(),
+};
+
+export const syncAssignmentsBody = z.object({
+  ...syncPlanFields,
+  assignmentIds: z.array(id).optional(),
+});
+export type SyncAssignmentsBody = z.infer<typeof syncAssignmentsBody>;
+
+export const syncPreviewBody = z.object(syncPlanFields);
+export type SyncPreviewBody = z.infer<typeof syncPreviewBody>;
+
+// Loose on purpose: Todoist adds fields over time and we only read a few of them.
+export const todoistWebhookBody = z
+  .object({
+    event_name: z.string().optional(),
+    user_id: z.union([z.string(), z.number()]).optional(),
+    event_data: z
+      .object({
+        id: z.union([z.string(), z.number()]).optional(),
+        checked: z.boolean().optional(),
+        is_deleted: z.boolean().optional(),
+        completed_at: z.string().nullable().optional(),
+      })
+      .passthrough()
+      .nullable()
+      .optional(),
+  })
+  .passthrough();
+export type TodoistWebhookBody = z.infer<typeof todoistWebhookBody>;
+
+// --- Settings ---
+
+export const syncSettingsBody = z.object({
+  closeSubmittedTasks: z.boolean().optional(),
+  reopenResubmitTasks: z.boolean().optional(),
+  dueDateConflictPolicy: conflictPolicy.optional(),
+  priorityConflictPolicy: conflictPolicy.optional(),
+  useDueTime: z.boolean().optional(),
+  itemTypes: z.array(canvasItemType).optional(),
+  // Empty labels are allowed and mean "no label for this type".
+  itemTypeLabels: z.record(canvasItemType, z.string().max(60)).optional(),
+  autoProvisionProjects: z.boolean().optional(),
+  projectNameTemplate: z
+    .string()
+    .trim()
+    .max(120)
+    .refine((value) => value.includes(COURSE_NAME_PLACEHOLDER), `must contain ${COURSE_NAME_PLACEHOLDER}`)
+    .optional(),
+  // null (or an empty parent name) means Todoist's default / no parent project.
+  projectColor: z.enum(TODOIST_COLORS).nullable().optional(),
+  projectParentName: z.string().trim().max(120).nullable().optional(),
+});
+export type SyncSettingsBody = z.infer<typeof syncSettingsBody>;
+
+export const autoSyncBody = z.object({
+  enabled: z.boolean().optional(),
+  intervalMinutes: z
+    .number()
+    .int()
+    .positive()
+    .max(MAX_AUTO_SYNC_INTERVAL_MINUTES, `must be at most ${MAX_AUTO_SYNC_INTERVAL_MINUTES} (one week)`)
+    .optional(),
+  days: z.array(z.number().int().min(0).max(6)).optional(),
+  // Checked against the rest of the schedule by validateAutoSyncSchedule.
+  time: z.string().optional(),
+  timezone: z.string().optional(),
+});
+export type AutoSyncBody = z.infer<typeof autoSyncBody>;
+
+// --- Shared ---
+
+export const idParams = z.object({
+  id,
+});
+export type IdParams = z.infer<typeof idParams>;
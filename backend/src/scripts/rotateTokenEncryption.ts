@@ -0,0 +1,85 @@
+// Re-encrypt every stored Canvas/Todoist token under the active key (the first entry of
+// TOKEN_ENCRYPTION_KEYS). Also encrypts tokens saved before encryption was enabled.
+//
+// To rotate keys:
+//   1. Put the new key first in TOKEN_ENCRYPTION_KEYS, keeping the old key(s) after it.
+//   2. Run `npm run tokens:rotate` (add `-- --dry-run` to only count affected rows).
+//   3. Once it reports no remaining rows, remove the old key(s) from TOKEN_ENCRYPTION_KEYS.
+import dotenv from 'dotenv';
+import { prisma } from '../prisma';
+import { decryptOptionalToken, encryptOptionalToken, getActiveTokenKeyId, getTokenKeyId } from '../tokenCrypto';
+
+dotenv.config();
+
+const needsRotation = (stored: string | null, activeKeyId: string) =>
+  stored != null && getTokenKeyId(stored) !== activeKeyId;
+
+async function rotateCanvasAccounts(activeKeyId: string, dryRun: boolean): Promise<number> {
+  const accounts = await prisma.canvasAccount.findMany({
+    select: { id: true, accessToken: true, refreshToken: true },
+  });
+
+  let rotated = 0;
+  for (const account of accounts) {
+    if (!needsRotation(account.accessToken, activeKeyId) && !needsRotation(account.refreshToken, activeKeyId)) {
+      continue;
+    }
+    rotated += 1;
+    if (dryRun) continue;
+
+    await prisma.canvasAccount.update({
+      where: { id: account.id },
+      data: {
+        accessToken: encryptOptionalToken(decryptOptionalToken(account.accessToken)) ?? account.accessToken,
+        refreshToken: encryptOptionalToken(decryptOptionalToken(account.refreshToken)),
+      },
+    });
+  }
+  return rotated;
+}
+
+async function rotateTodoistAccounts(activeKeyId: string, dryRun: boolean): Promise<number> {
+  const accounts = await prisma.todoistAccount.findMany({
+    select: { id: true, accessToken: true },
+  });
+
+  let rotated = 0;
+  for (const account of accounts) {
+    if (!needsRotation(account.accessToken, activeKeyId)) continue;
+    rotated += 1;
+    if (dryRun) continue;
+
+    await prisma.todoistAccount.update({
+      where: { id: account.id },
+      data: {
+        accessToken: encryptOptionalToken(decryptOptionalToken(account.accessToken)) ?? account.accessToken,
+      },
+    });
+  }
+  return rotated;
+}
+
+async function main() {
+  const dryRun = process.argv.includes('--dry-run');
+  const activeKeyId = getActiveTokenKeyId();
+  if (!activeKeyId) {
+    throw new Error('TOKEN_ENCRYPTION_KEYS is not set; nothing to encrypt with.');
+  }
+
+  const canvas = await rotateCanvasAccounts(activeKeyId, dryRun);
+  const todoist = await rotateTodoistAccounts(activeKeyId, dryRun);
+
+  // eslint-disable-next-line no-console
+  console.log(
+    `${dryRun ? 'Would re-encrypt' : 'Re-encrypted'} ${canvas} Canvas and ${todoist} Todoist account(s) ` +
+      `under key "${activeKeyId}".`,
+  );
+}
+
+main()
+  .catch((err) => {
+    // eslint-disable-next-line no-console
+    console.error(err instanceof Error ? err.message : err);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -2,19 +2,129 @@ import express from 'express';
 import cors from 'cors';
 import cookieParser from 'cookie-parser';
 import dotenv from 'dotenv';
-import { upsertCanvasConfig, fetchAndStoreUpcomingAssignments } from './services/canvasService';
-import { upsertTodoistConfig, fetchTodoistProjects, syncAssignmentsToTodoist } from './services/todoistService';
+import {
+  upsertCanvasConfig,
+  fetchAndStoreUpcomingAssignments,
+  detectCanvasTimeZone,
+  getCanvasTimeZoneState,
+  setCanvasTimeZoneOverride,
+} from './services/canvasService';
+import {
+  upsertTodoistConfig,
+  fetchTodoistProjects,
+  previewTodoistSync,
+  syncAssignmentsToTodoist,
+} from './services/todoistService';
+import { autoProvisionTodoistProjects, provisionTodoistProjects } from './services/todoistProjectService';
+import {
+  configureAutoSync,
+  getAutoSyncState,
+  startAutoSyncScheduler,
+  validateAutoSyncSchedule,
+  type AutoSyncSchedule,
+} from './services/autoSyncService';
+import { getSyncSettings, updateSyncSettings } from './services/syncSettingsService';
+import {
+  buildCanvasAuthorizeUrl,
+  completeCanvasOAuth,
+  isCanvasOAuthConfigured,
+} from './services/canvasOAuthService';
+import {
+  requestPasswordReset,
+  resetPassword,
+  sendVerificationEmail,
+  verifyEmail,
+} from './services/accountEmailService';
+import {
+  buildGoogleAuthorizeUrl,
+  completeGoogleLogin,
+  createOidcNonce,
+  isGoogleAuthConfigured,
+} from './services/googleAuthService';
+import { getMailTransport } from './services/mailService';
+import { listSessions, revokeOtherSessions, revokeSession } from './services/sessionService';
+import {
+  buildTodoistAuthorizeUrl,
+  completeTodoistOAuth,
+  disconnectTodoist,
+  isTodoistOAuthConfigured,
+} from './services/todoistOAuthService';
+import {
+  handleTodoistWebhookEvent,
+  isTodoistWebhookConfigured,
+  verifyTodoistSignature,
+} from './services/todoistWebhookService';
 import { prisma } from './prisma';
+import {
+  byBodyEmail,
+  byIp,
+  byUser,
+  clearLoginFailures,
+  getLoginLockout,
+  rateLimit,
+  recordLoginFailure,
+  sendTooManyRequests,
+} from './rateLimit';
 import {
   authMiddleware,
   clearSessionCookie,
+  consumeOAuthState,
+  createCsrfToken,
+  createOAuthState,
+  csrfProtection,
+  getBackendUrl,
   getSessionFromRequest,
+  getSessionIdFromRequest,
   getUserEmailFromRequest,
   getUserIdFromRequest,
   redirectToFrontend,
   requireAuth,
   setSessionCookie,
 } from './auth';
+import { validate } from './validation';
+import { requireOwnership } from './ownership';
+import {
+  autoSyncBody,
+  canvasConfigBody,
+  canvasTimeZoneBody,
+  courseDueTimeBody,
+  fetchAssignmentsBody,
+  googleStartQuery,
+  idParams,
+  loginBody,
+  mapProjectBody,
+  oauthCallbackQuery,
+  passwordResetConfirmBody,
+  passwordResetRequestBody,
+  provisionProjectsBody,
+  registerBody,
+  syncAssignmentsBody,
+  syncPreviewBody,
+  syncSettingsBody,
+  todoistConfigBody,
+  todoistWebhookBody,
+  verifyEmailBody,
+  type AutoSyncBody,
+  type CanvasConfigBody,
+  type CanvasTimeZoneBody,
+  type CourseDueTimeBody,
+  type FetchAssignmentsBody,
+  type GoogleStartQuery,
+  type IdParams,
+  type LoginBody,
+  type MapProjectBody,
+  type OAuthCallbackQuery,
+  type PasswordResetConfirmBody,
+  type PasswordResetRequestBody,
+  type ProvisionProjectsBody,
+  type RegisterBody,
+  type SyncAssignmentsBody,
+  type SyncPreviewBody,
+  type SyncSettingsBody,
+  type TodoistConfigBody,
+  type TodoistWebhookBody,
+  type VerifyEmailBody,
+} from './schemas';
 
 dotenv.config();
 
@@ -25,142 +135,381 @@ const port = Number(process.env.PORT) || 4000;
 const rawCorsOrigin = process.env.CORS_ORIGIN || 'http://localhost:5173';
 const corsOrigins = rawCorsOrigin.split(',').map((o) => o.trim()).filter(Boolean);
 
-// Simple in-memory auto-sync scheduler (per backend process).
-let autoSyncIntervalMinutes = 0;
-let autoSyncTimer: NodeJS.Timeout | null = null;
+app.use(
+  cors({
+    origin: corsOrigins.length === 0 ? '*' : corsOrigins,
+    credentials: true,
+  }),
+);
+// Behind a reverse proxy (e.g. Render), set TRUST_PROXY to the number of proxy hops so
+// req.ip is the client's address rather than the proxy's.
+if (process.env.TRUST_PROXY) {
+  const hops = Number(process.env.TRUST_PROXY);
+  app.set('trust proxy', Number.isNaN(hops) ? process.env.TRUST_PROXY : hops);
+}
+app.use(cookieParser());
+app.use(
+  express.json({
+    // Keep the raw body around so webhook signatures can be verified byte-for-byte.
+    verify: (req, _res, buf) => {
+      (req as express.Request & { rawBody?: Buffer }).rawBody = buf;
+    },
+  }),
+);
+app.use(authMiddleware);
+app.use(csrfProtection);
 
-async function runAutoSync() {
-  try {
-    if (!autoSyncUserId) return;
+// Rate limits. Per-IP limits are generous because students on campus networks often share
+// an IP; accounts are protected by the progressive login lockout instead.
+const loginRateLimit = rateLimit({ name: 'login', windowMs: 15 * 60 * 1000, max: 100, key: byIp });
+const registerRateLimit = rateLimit({ name: 'register', windowMs: 60 * 60 * 1000, max: 20, key: byIp });
+const passwordResetIpRateLimit = rateLimit({ name: 'reset', windowMs: 60 * 60 * 1000, max: 20, key: byIp });
+const passwordResetEmailRateLimit = rateLimit({
+  name: 'reset',
+  windowMs: 60 * 60 * 1000,
+  max: 3,
+  key: byBodyEmail,
+  message: 'Too many reset emails requested for this address. Please check your inbox or try again later.',
+});
+// Canvas fetches and Todoist syncs fan out into many upstream API calls.
+const canvasFetchRateLimit = rateLimit({
+  name: 'canvas-fetch',
+  windowMs: 10 * 60 * 1000,
+  max: 10,
+  key: byUser,
+  message: 'Too many Canvas fetches. Please wait a few minutes before fetching again.',
+});
+const todoistSyncRateLimit = rateLimit({
+  name: 'todoist-sync',
+  windowMs: 10 * 60 * 1000,
+  max: 10,
+  key: byUser,
+  message: 'Too many Todoist syncs. Please wait a few minutes before syncing again.',
+});
+// Previews only read from Todoist and usually come right before a sync, so they get their
+// own bucket instead of using up the sync allowance.
+const todoistPreviewRateLimit = rateLimit({
+  name: 'todoist-preview',
+  windowMs: 10 * 60 * 1000,
+  max: 20,
+  key: byUser,
+  message: 'Too many sync previews. Please wait a few minutes before previewing again.',
+});
 
-    // Fetch latest Canvas assignments first, using default detection options (all future, include no-due-date).
-    await fetchAndStoreUpcomingAssignments(autoSyncUserId);
+app.get('/health', (_req, res) => {
+  res.json({ status: 'ok' });
+});
 
-    // Sync all courses that have a mapped Todoist project for this user.
-    const mappedCourses = await prisma.course.findMany({
-      where: { userId: autoSyncUserId, todoistProjectId: { not: null } },
-      select: { id: true },
-    });
+// Todoist webhook deliveries (item:completed, item:uncompleted, item:deleted, item:updated).
+app.post('/webhooks/todoist', validate({ body: todoistWebhookBody }), async (req, res) => {
+  if (!isTodoistWebhookConfigured()) {
+    return res.status(503).json({ error: 'Todoist webhooks are not configured' });
+  }
 
-    if (mappedCourses.length === 0) return;
+  const rawBody = (req as express.Request & { rawBody?: Buffer }).rawBody ?? Buffer.alloc(0);
+  if (!verifyTodoistSignature(rawBody, req.header('X-Todoist-Hmac-SHA256'))) {
+    return res.status(401).json({ error: 'Invalid webhook signature' });
+  }
 
-    await syncAssignmentsToTodoist(autoSyncUserId, mappedCourses.map((c) => c.id));
+  try {
+    const result = await handleTodoistWebhookEvent(req.body as TodoistWebhookBody);
+    return res.json(result);
   } catch (err) {
-    // For now, just log; in the future we could persist these.
-    // eslint-disable-next-line no-console
-    console.error('Auto-sync run failed', err);
+    console.error('Error handling Todoist webhook', err);
+    return res.status(500).json({ error: 'Failed to handle Todoist webhook' });
   }
-}
+});
 
-function configureAutoSync(intervalMinutes: number) {
-  if (autoSyncTimer) {
-    clearInterval(autoSyncTimer);
-    autoSyncTimer = null;
+// Lightweight auth status endpoint used by the frontend shell.
+app.get('/api/me', async (req, res) => {
+  try {
+    const session = getSessionFromRequest(req);
+    if (!session) {
+      return res.json({ authenticated: false });
+    }
+    const user = await prisma.user.findUnique({
+      where: { id: session.userId },
+      select: { email: true, emailVerifiedAt: true },
+    });
+    return res.json({
+      authenticated: true,
+      user: {
+        email: user?.email ?? session.email ?? getUserEmailFromRequest(req),
+        emailVerified: !!user?.emailVerifiedAt,
+      },
+      // Send this back in X-CSRF-Token on every non-GET request.
+      csrfToken: session.sessionId ? createCsrfToken(session.sessionId) : null,
+    });
+  } catch (err) {
+    console.error('Error loading current user', err);
+    return res.status(500).json({ error: 'Failed to load current user' });
   }
+});
+
+// Register a new user with email/password and start a session.
+app.post('/auth/register', registerRateLimit, validate({ body: registerBody }), async (req, res) => {
+  try {
+    const { email, password, name, remember } = req.body as RegisterBody;
+
+    const normalizedEmail = email.toLowerCase();
+    const existing = await prisma.user.findUnique({ where: { email: normalizedEmail } });
+    if (existing) {
+      return res.status(400).json({ error: 'An account with this email already exists.' });
+    }
+
+    const bcrypt = await import('bcryptjs');
+    const hash = await bcrypt.hash(password, 10);
 
-  autoSyncIntervalMinutes = intervalMinutes;
+    const user = await prisma.user.create({
+      data: {
+        email: normalizedEmail,
+        passwordHash: hash,
+        displayName: name ?? null,
+      },
+    });
 
-  if (intervalMinutes > 0) {
-    autoSyncTimer = setInterval(() => {
-      void runAutoSync();
-    }, intervalMinutes * 60 * 1000);
+    // A mail outage shouldn't block sign-up; the user can resend the link from the app.
+    await sendVerificationEmail(user.id).catch((err) => {
+      console.error('Error sending verification email', err);
+    });
+
+    const csrfToken = await setSessionCookie(req, res, { userId: user.id, email: user.email, remember });
+    return res.json({ user: { email: user.email, emailVerified: false }, csrfToken });
+  } catch (err) {
+    console.error('Error registering user', err);
+    return res.status(500).json({ error: 'Failed to create account' });
   }
-}
+});
 
-app.use(
-  cors({
-    origin: corsOrigins.length === 0 ? '*' : corsOrigins,
-    credentials: true,
-  }),
-);
-app.use(cookieParser());
-app.use(express.json());
-app.use(authMiddleware);
+const lockoutMessage = (seconds: number) =>
+  `Too many failed sign-in attempts. Try again in ${Math.ceil(seconds / 60)} minute(s), or reset your password.`;
 
-app.get('/health', (_req, res) => {
-  res.json({ status: 'ok' });
+// Log in with email/password and start a session.
+app.post('/auth/login', loginRateLimit, validate({ body: loginBody }), async (req, res) => {
+  const { email, password, remember } = req.body as LoginBody;
+
+  const normalizedEmail = email.toLowerCase();
+
+  try {
+    const lockedForSeconds = await getLoginLockout(normalizedEmail);
+    if (lockedForSeconds > 0) {
+      return sendTooManyRequests(res, lockedForSeconds, lockoutMessage(lockedForSeconds));
+    }
+
+    const user = await prisma.user.findUnique({ where: { email: normalizedEmail } });
+
+    const bcrypt = await import('bcryptjs');
+    const valid = !!user?.passwordHash && (await bcrypt.compare(password, user.passwordHash));
+    if (!user || !valid) {
+      // Count failures for unknown emails too, so lockouts don't reveal which accounts exist.
+      const lockoutSeconds = await recordLoginFailure(normalizedEmail);
+      if (lockoutSeconds > 0) {
+        return sendTooManyRequests(res, lockoutSeconds, lockoutMessage(lockoutSeconds));
+      }
+      return res.status(400).json({ error: 'Invalid email or password.' });
+    }
+
+    await clearLoginFailures(normalizedEmail);
+    const csrfToken = await setSessionCookie(req, res, { userId: user.id, email: user.email, remember });
+    return res.json({ user: { email: user.email, emailVerified: !!user.emailVerifiedAt }, csrfToken });
+  } catch (err) {
+    console.error('Error signing in', err);
+    return res.status(500).json({ error: 'Failed to sign in' });
+  }
 });
 
-// Lightweight auth status endpoint used by the frontend shell.
-app.get('/api/me', (req, res) => {
+app.post('/auth/logout', async (req, res) => {
+  // Revoke the session server-side too, so a copied cookie stops working.
   const session = getSessionFromRequest(req);
-  if (!session) {
-    return res.json({ authenticated: false });
+  if (session?.sessionId) {
+    await revokeSession(session.userId, session.sessionId).catch((err) => {
+      console.error('Error revoking session on logout', err);
+    });
   }
-  return res.json({
-    authenticated: true,
-    user: {
-      email: session.email ?? getUserEmailFromRequest(req),
-    },
-  });
+  clearSessionCookie(res);
+  res.json({ success: true });
 });
 
-// Register a new user with email/password and start a session.
-app.post('/auth/register', async (req, res) => {
-  const { email, password, name, remember } = req.body as {
-    email?: string;
-    password?: string;
-    name?: string;
-    remember?: boolean;
-  };
+// Email a password reset link. Responds the same way, and just as fast, whether or not
+// the account exists: the lookup and the email happen after the response is sent.
+app.post(
+  '/auth/password-reset/request',
+  passwordResetIpRateLimit,
+  validate({ body: passwordResetRequestBody }),
+  passwordResetEmailRateLimit,
+  (req, res) => {
+    const { email } = req.body as PasswordResetRequestBody;
+
+    requestPasswordReset(email).catch((err) => {
+      console.error('Error sending password reset email', err);
+    });
+    return res.json({ message: 'If an account exists for that email, a reset link is on its way.' });
+  },
+);
+
+app.post('/auth/password-reset/confirm', validate({ body: passwordResetConfirmBody }), async (req, res) => {
+  const { token, password } = req.body as PasswordResetConfirmBody;
 
-  if (!email || !password) {
-    return res.status(400).json({ error: 'Email and password are required' });
+  try {
+    const reset = await resetPassword(token, password);
+    if (!reset) {
+      return res.status(400).json({ error: 'This reset link is invalid or has expired. Please request a new one.' });
+    }
+    clearSessionCookie(res);
+    return res.json({ message: 'Password updated. You can now sign in with your new password.' });
+  } catch (err) {
+    console.error('Error resetting password', err);
+    return res.status(500).json({ error: 'Failed to reset password' });
   }
+});
 
-  const normalizedEmail = email.toLowerCase();
-  const existing = await prisma.user.findUnique({ where: { email: normalizedEmail } });
-  if (existing) {
-    return res.status(400).json({ error: 'An account with this email already exists.' });
+// Verification links work whether or not the user is signed in on this browser.
+app.post('/auth/verify-email', validate({ body: verifyEmailBody }), async (req, res) => {
+  const { token } = req.body as VerifyEmailBody;
+
+  try {
+    const verified = await verifyEmail(token);
+    if (!verified) {
+      return res.status(400).json({ error: 'This verification link is invalid or has expired.' });
+    }
+    return res.json({ message: 'Email address confirmed.' });
+  } catch (err) {
+    console.error('Error verifying email', err);
+    return res.status(500).json({ error: 'Failed to verify email' });
   }
+});
 
-  const bcrypt = await import('bcryptjs');
-  const hash = await bcrypt.hash(password, 10);
+app.post('/api/me/verification-email', requireAuth, async (req, res) => {
+  try {
+    const userId = getUserIdFromRequest(req);
+    await sendVerificationEmail(userId);
+    return res.json({ message: 'Verification email sent.' });
+  } catch (err) {
+    console.error('Error sending verification email', err);
+    return res.status(500).json({ error: err instanceof Error ? err.message : 'Failed to send verification email' });
+  }
+});
 
-  const user = await prisma.user.create({
-    data: {
-      email: normalizedEmail,
-      passwordHash: hash,
-      displayName: name ?? null,
-    },
-  });
+// Which sign-in methods besides email/password are available, for the login screen.
+app.get('/auth/providers', (_req, res) => {
+  res.json({ google: isGoogleAuthConfigured() });
+});
+
+// Sign in with Google (OpenID Connect). The nonce travels in the signed state cookie and
+// must come back inside the ID token.
+app.get('/auth/google/start', validate({ query: googleStartQuery }), (req, res) => {
+  if (!isGoogleAuthConfigured()) {
+    return res.status(503).json({ error: 'Google sign-in is not configured' });
+  }
 
-  setSessionCookie(res, { userId: user.id, email: user.email, remember });
-  return res.json({ user: { email: user.email } });
+  const nonce = createOidcNonce();
+  const query = req.query as GoogleStartQuery;
+  const remember = query.remember === '1' || query.remember === 'true';
+  const state = createOAuthState(res, 'google', { nonce, remember });
+  return res.redirect(buildGoogleAuthorizeUrl(`${getBackendUrl(req)}/auth/google/callback`, state, nonce));
 });
 
-// Log in with email/password and start a session.
-app.post('/auth/login', async (req, res) => {
-  const { email, password, remember } = req.body as {
-    email?: string;
-    password?: string;
-    remember?: boolean;
-  };
+app.get('/auth/google/callback', validate({ query: oauthCallbackQuery }), async (req, res) => {
+  const { code, state, error } = req.query as OAuthCallbackQuery;
+  const payload = consumeOAuthState(req, res, 'google', state);
 
-  if (!email || !password) {
-    return res.status(400).json({ error: 'Email and password are required' });
+  if (!payload || typeof payload.nonce !== 'string') {
+    return redirectToFrontend(res, { login: 'error', message: 'The Google sign-in link expired. Please try again.' });
+  }
+  if (error || !code) {
+    return redirectToFrontend(res, { login: 'error', message: 'Google sign-in was cancelled.' });
   }
 
-  const normalizedEmail = email.toLowerCase();
-  const user = await prisma.user.findUnique({ where: { email: normalizedEmail } });
+  try {
+    const user = await completeGoogleLogin(code, `${getBackendUrl(req)}/auth/google/callback`, payload.nonce);
+    await setSessionCookie(req, res, { userId: user.id, email: user.email, remember: payload.remember === true });
+    return redirectToFrontend(res);
+  } catch (err) {
+    console.error('Error completing Google sign-in', err);
+    return redirectToFrontend(res, {
+      login: 'error',
+      message: err instanceof Error ? err.message : 'Could not sign in with Google. Please try again.',
+    });
+  }
+});
 
-  if (!user || !user.passwordHash) {
-    return res.status(400).json({ error: 'Invalid email or password.' });
+// Start connecting Canvas through the developer key's OAuth2 flow. The signed-in user
+// is remembered in the OAuth state so the callback knows whose account to update.
+app.get('/auth/canvas/start', requireAuth, (req, res) => {
+  if (!isCanvasOAuthConfigured()) {
+    return res.status(503).json({ error: 'Canvas OAuth is not configured' });
   }
 
-  const bcrypt = await import('bcryptjs');
-  const valid = await bcrypt.compare(password, user.passwordHash);
-  if (!valid) {
-    return res.status(400).json({ error: 'Invalid email or password.' });
+  const userId = getUserIdFromRequest(req);
+  const state = createOAuthState(res, 'canvas', { userId });
+  return res.redirect(buildCanvasAuthorizeUrl(`${getBackendUrl(req)}/auth/canvas/callback`, state));
+});
+
+app.get('/auth/canvas/callback', validate({ query: oauthCallbackQuery }), async (req, res) => {
+  const { code, state, error } = req.query as OAuthCallbackQuery;
+  const payload = consumeOAuthState(req, res, 'canvas', state);
+
+  if (!payload || typeof payload.userId !== 'string') {
+    return redirectToFrontend(res, { canvas: 'error', message: 'The Canvas sign-in link expired. Please try again.' });
+  }
+  // The session (if any) must belong to the user who started the flow.
+  const session = getSessionFromRequest(req);
+  if (session && session.userId !== payload.userId) {
+    return redirectToFrontend(res, { canvas: 'error', message: 'Signed in as a different user. Please try again.' });
+  }
+  if (error || !code) {
+    return redirectToFrontend(res, { canvas: 'error', message: 'Canvas access was not granted.' });
   }
 
-  setSessionCookie(res, { userId: user.id, email: user.email, remember });
-  return res.json({ user: { email: user.email } });
+  try {
+    await completeCanvasOAuth(payload.userId, code, `${getBackendUrl(req)}/auth/canvas/callback`);
+    await detectCanvasTimeZone(payload.userId);
+    return redirectToFrontend(res, { canvas: 'connected' });
+  } catch (err) {
+    console.error('Error completing Canvas OAuth', err);
+    return redirectToFrontend(res, { canvas: 'error', message: 'Could not connect to Canvas. Please try again.' });
+  }
 });
 
-app.post('/auth/logout', (_req, res) => {
-  clearSessionCookie(res);
-  res.json({ success: true });
+// Connect Todoist through OAuth instead of pasting an API token.
+app.get('/auth/todoist/start', requireAuth, (req, res) => {
+  if (!isTodoistOAuthConfigured()) {
+    return res.status(503).json({ error: 'Todoist OAuth is not configured' });
+  }
+
+  const userId = getUserIdFromRequest(req);
+  const state = createOAuthState(res, 'todoist', { userId });
+  return res.redirect(buildTodoistAuthorizeUrl(state));
+});
+
+app.get('/auth/todoist/callback', validate({ query: oauthCallbackQuery }), async (req, res) => {
+  const { code, state, error } = req.query as OAuthCallbackQuery;
+  const payload = consumeOAuthState(req, res, 'todoist', state);
+
+  if (!payload || typeof payload.userId !== 'string') {
+    return redirectToFrontend(res, {
+      todoist: 'error',
+      message: 'The Todoist sign-in link expired. Please try again.',
+    });
+  }
+  const session = getSessionFromRequest(req);
+  if (session && session.userId !== payload.userId) {
+    return redirectToFrontend(res, { todoist: 'error', message: 'Signed in as a different user. Please try again.' });
+  }
+  if (error || !code) {
+    return redirectToFrontend(res, { todoist: 'error', message: 'Todoist access was not granted.' });
+  }
+
+  try {
+    await completeTodoistOAuth(payload.userId, code);
+    return redirectToFrontend(res, { todoist: 'connected' });
+  } catch (err) {
+    console.error('Error completing Todoist OAuth', err);
+    return redirectToFrontend(res, {
+      todoist: 'error',
+      message: err instanceof Error ? err.message : 'Could not connect to Todoist. Please try again.',
+    });
+  }
 });
 
 app.get('/api/status', requireAuth, async (req, res) => {
@@ -174,31 +523,30 @@ app.get('/api/status', requireAuth, async (req, res) => {
     const coursesCount = await prisma.course.count({ where: { userId } });
     const assignmentsCount = await prisma.assignment.count({ where: { course: { userId } } });
 
-    const storedInterval = user?.autoSyncIntervalMinutes ?? 0;
-
-    // If this user has auto-sync configured in the database but the in-memory scheduler
-    // is not aligned (e.g., after a cold start), reconfigure it now.
-    if (storedInterval > 0 && (autoSyncUserId !== userId || autoSyncIntervalMinutes !== storedInterval)) {
-      autoSyncUserId = userId;
-      configureAutoSync(storedInterval);
-    }
+    const autoSync = await getAutoSyncState(userId);
+    const canvasTimeZone = await getCanvasTimeZoneState(userId);
 
     return res.json({
       canvas: {
         configured: !!user?.canvasAccount,
         baseUrl: user?.canvasAccount?.baseUrl ?? null,
+        connection: user?.canvasAccount ? (user.canvasAccount.refreshToken ? 'oauth' : 'token') : null,
+        needsReconnect: user?.canvasAccount?.needsReconnect ?? false,
+        oauthAvailable: isCanvasOAuthConfigured(),
+        timezone: canvasTimeZone.timezone,
+        detectedTimezone: canvasTimeZone.detected,
+        timezoneOverride: canvasTimeZone.override,
       },
       todoist: {
         configured: !!user?.todoistAccount,
+        connection: user?.todoistAccount ? (user.todoistAccount.scope ? 'oauth' : 'token') : null,
+        oauthAvailable: isTodoistOAuthConfigured(),
       },
       summary: {
         coursesCount,
         assignmentsCount,
       },
-      autoSync: {
-        enabled: storedInterval > 0,
-        intervalMinutes: storedInterval,
-      },
+      autoSync,
     });
   } catch (err) {
     console.error('Error loading status', err);
@@ -206,15 +554,11 @@ app.get('/api/status', requireAuth, async (req, res) => {
   }
 });
 
-app.post('/api/canvas/config', requireAuth, async (req, res) => {
+app.post('/api/canvas/config', requireAuth, validate({ body: canvasConfigBody }), async (req, res) => {
   try {
-    const { baseUrl, accessToken } = req.body as { baseUrl?: string; accessToken?: string };
+    const { baseUrl, accessToken } = req.body as CanvasConfigBody;
     const userId = getUserIdFromRequest(req);
 
-    if (!baseUrl || !accessToken) {
-      return res.status(400).json({ error: 'baseUrl and accessToken are required' });
-    }
-
     const result = await upsertCanvasConfig({ userId, baseUrl, accessToken });
 
     return res.json({
@@ -228,30 +572,63 @@ app.post('/api/canvas/config', requireAuth, async (req, res) => {
   }
 });
 
-app.post('/api/canvas/fetch-assignments', requireAuth, async (req, res) => {
+app.post('/api/canvas/timezone', requireAuth, validate({ body: canvasTimeZoneBody }), async (req, res) => {
   try {
     const userId = getUserIdFromRequest(req);
-    const { daysAhead, includeNoDueDate } = req.body as {
-      daysAhead?: number | null;
-      includeNoDueDate?: boolean;
-    };
+    const { timezone } = req.body as CanvasTimeZoneBody;
 
-    const result = await fetchAndStoreUpcomingAssignments(userId, { daysAhead, includeNoDueDate });
-    return res.json({
-      message: 'Fetched upcoming assignments from Canvas',
-      ...result,
-    });
+    // An empty value clears the override and falls back to the Canvas profile timezone.
+    const state = await setCanvasTimeZoneOverride(userId, timezone || null);
+    return res.json(state);
   } catch (err) {
-    console.error('Error fetching assignments from Canvas', err);
+    console.error('Error saving Canvas timezone', err);
     return res.status(500).json({
-      error:
-        err instanceof Error
-          ? err.message
-          : 'Failed to fetch assignments from Canvas',
+      error: err instanceof Error ? err.message : 'Failed to save Canvas timezone',
     });
   }
 });
 
+app.post(
+  '/api/canvas/fetch-assignments',
+  requireAuth,
+  validate({ body: fetchAssignmentsBody }),
+  canvasFetchRateLimit,
+  async (req, res) => {
+    try {
+      const userId = getUserIdFromRequest(req);
+      const { daysAhead, includeNoDueDate } = req.body as FetchAssignmentsBody;
+
+      const result = await fetchAndStoreUpcomingAssignments(userId, { daysAhead, includeNoDueDate });
+
+      // Give newly imported courses a Todoist project right away if the user opted in. The
+      // Canvas fetch already succeeded, so a Todoist problem here is reported, not fatal.
+      let provisioned = null;
+      let provisionError: string | null = null;
+      try {
+        provisioned = await autoProvisionTodoistProjects(userId, result.courseIds);
+      } catch (err) {
+        console.error('Error auto-creating Todoist projects', err);
+        provisionError = err instanceof Error ? err.message : 'Failed to create Todoist projects';
+      }
+
+      return res.json({
+        message: 'Fetched upcoming assignments from Canvas',
+        ...result,
+        provisioned,
+        provisionError,
+      });
+    } catch (err) {
+      console.error('Error fetching assignments from Canvas', err);
+      return res.status(500).json({
+        error:
+          err instanceof Error
+            ? err.message
+            : 'Failed to fetch assignments from Canvas',
+      });
+    }
+  },
+);
+
 app.get('/api/assignments/upcoming', requireAuth, async (req, res) => {
   try {
     const userId = getUserIdFromRequest(req);
@@ -273,9 +650,14 @@ app.get('/api/assignments/upcoming', requireAuth, async (req, res) => {
       assignments: assignments.map((a) => ({
         id: a.id,
         name: a.name,
+        itemType: a.itemType,
         courseName: a.course?.name ?? 'Unknown course',
         dueDate: a.dueDate,
+        dueAt: a.dueAt,
+        submissionState: a.submissionState,
         synced: !!a.todoistTaskId,
+        completedInTodoist: !!a.todoistCompletedAt,
+        deletedInTodoist: !!a.todoistDeletedAt,
         lastSyncedAt: a.lastSyncedAt,
       })),
     });
@@ -300,6 +682,7 @@ app.get('/api/courses', requireAuth, async (req, res) => {
         id: c.id,
         name: c.name,
         todoistProjectId: c.todoistProjectId,
+        useDueTime: c.useDueTime,
       })),
     });
   } catch (err) {
@@ -310,48 +693,101 @@ app.get('/api/courses', requireAuth, async (req, res) => {
   }
 });
 
-app.post('/api/courses/map-project', requireAuth, async (req, res) => {
-  try {
-    const { courseId, todoistProjectId } = req.body as {
-      courseId?: string;
-      todoistProjectId?: string | null;
-    };
+app.post(
+  '/api/courses/map-project',
+  requireAuth,
+  validate({ body: mapProjectBody }),
+  requireOwnership('course', (req) => (req.body as MapProjectBody).courseId),
+  async (req, res) => {
+    try {
+      const { courseId, todoistProjectId } = req.body as MapProjectBody;
+
+      // Choosing "No project" is remembered, so auto-provisioning doesn't map the course again.
+      const updated = await prisma.course.update({
+        where: { id: courseId },
+        data: {
+          todoistProjectId: todoistProjectId || null,
+          todoistProjectOptOut: !todoistProjectId,
+        },
+      });
 
-    if (!courseId) {
-      return res.status(400).json({ error: 'courseId is required' });
+      return res.json({
+        id: updated.id,
+        name: updated.name,
+        todoistProjectId: updated.todoistProjectId,
+        useDueTime: updated.useDueTime,
+      });
+    } catch (err) {
+      console.error('Error mapping course to Todoist project', err);
+      return res.status(500).json({
+        error:
+          err instanceof Error
+            ? err.message
+            : 'Failed to map course to Todoist project',
+      });
     }
+  },
+);
 
-    const updated = await prisma.course.update({
-      where: { id: courseId },
-      data: {
-        todoistProjectId: todoistProjectId || null,
-      },
-    });
+app.post(
+  '/api/courses/due-time',
+  requireAuth,
+  validate({ body: courseDueTimeBody }),
+  requireOwnership('course', (req) => (req.body as CourseDueTimeBody).courseId),
+  async (req, res) => {
+    try {
+      const { courseId, useDueTime } = req.body as CourseDueTimeBody;
 
-    return res.json({
-      id: updated.id,
-      name: updated.name,
-      todoistProjectId: updated.todoistProjectId,
-    });
-  } catch (err) {
-    console.error('Error mapping course to Todoist project', err);
-    return res.status(500).json({
-      error:
-        err instanceof Error
-          ? err.message
-          : 'Failed to map course to Todoist project',
-    });
-  }
-});
+      // null clears the override so the course follows the user's due-time setting.
+      const updated = await prisma.course.update({
+        where: { id: courseId },
+        data: { useDueTime },
+      });
 
-app.post('/api/todoist/config', requireAuth, async (req, res) => {
-  try {
-    const { accessToken } = req.body as { accessToken?: string };
-    const userId = getUserIdFromRequest(req);
+      return res.json({
+        id: updated.id,
+        name: updated.name,
+        todoistProjectId: updated.todoistProjectId,
+        useDueTime: updated.useDueTime,
+      });
+    } catch (err) {
+      console.error('Error updating course due-time setting', err);
+      return res.status(500).json({
+        error: err instanceof Error ? err.message : 'Failed to update course due-time setting',
+      });
+    }
+  },
+);
 
-    if (!accessToken) {
-      return res.status(400).json({ error: 'accessToken is required' });
+// Create or link a Todoist project for each course that has none and wasn't set to
+// "No project", per the user's project settings. Works whether or not automatic
+// provisioning is turned on.
+app.post(
+  '/api/courses/provision-projects',
+  requireAuth,
+  validate({ body: provisionProjectsBody }),
+  requireOwnership('course', (req) => (req.body as ProvisionProjectsBody).courseIds),
+  todoistSyncRateLimit,
+  async (req, res) => {
+    try {
+      const userId = getUserIdFromRequest(req);
+      const { courseIds } = req.body as ProvisionProjectsBody;
+
+      const result = await provisionTodoistProjects(userId, courseIds);
+      return res.json(result);
+    } catch (err) {
+      console.error('Error creating Todoist projects for courses', err);
+      return res.status(500).json({
+        error: err instanceof Error ? err.message : 'Failed to create Todoist projects',
+      });
     }
+  },
+);
+
+app.post('/api/todoist/config', requireAuth, validate({ body: todoistConfigBody }), async (req, res) => {
+  try {
+    const { accessToken } = req.body as TodoistConfigBody;
+    const userId = getUserIdFromRequest(req);
 
     const result = await upsertTodoistConfig({ userId, accessToken });
 
@@ -361,7 +797,20 @@ app.post('/api/todoist/config', requireAuth, async (req, res) => {
     });
   } catch (err) {
     console.error('Error saving Todoist config', err);
-    return res.status(500).json({ error: 'Failed to save Todoist configuration' });
+    return res.status(500).json({
+      error: err instanceof Error ? err.message : 'Failed to save Todoist configuration',
+    });
+  }
+});
+
+app.post('/api/todoist/disconnect', requireAuth, async (req, res) => {
+  try {
+    const userId = getUserIdFromRequest(req);
+    await disconnectTodoist(userId);
+    return res.json({ message: 'Todoist disconnected' });
+  } catch (err) {
+    console.error('Error disconnecting Todoist', err);
+    return res.status(500).json({ error: 'Failed to disconnect Todoist' });
   }
 });
 
@@ -379,38 +828,96 @@ app.get('/api/todoist/projects', requireAuth, async (req, res) => {
   }
 });
 
-app.post('/api/todoist/sync-assignments', requireAuth, async (req, res) => {
+app.post(
+  '/api/todoist/sync-assignments',
+  requireAuth,
+  validate({ body: syncAssignmentsBody }),
+  requireOwnership('course', (req) => (req.body as SyncAssignmentsBody).courseIds),
+  requireOwnership('assignment', (req) => (req.body as SyncAssignmentsBody).assignmentIds),
+  todoistSyncRateLimit,
+  async (req, res) => {
+    try {
+      const userId = getUserIdFromRequest(req);
+      const { courseIds, prioritySettings, detectionSettings, assignmentIds } = req.body as SyncAssignmentsBody;
+
+      const result = await syncAssignmentsToTodoist(
+        userId,
+        courseIds,
+        { prioritySettings, detectionSettings },
+        { assignmentIds },
+      );
+      return res.json({
+        message:
+          result.failed > 0
+            ? `Synced assignments to Todoist; ${result.failed} failed and will be retried on the next sync`
+            : 'Synced assignments to Todoist',
+        ...result,
+      });
+    } catch (err) {
+      console.error('Error syncing assignments to Todoist', err);
+      return res.status(500).json({
+        error:
+          err instanceof Error ? err.message : 'Failed to sync assignments to Todoist',
+      });
+    }
+  },
+);
+
+// Dry run of the Todoist sync: returns the planned changes without touching Todoist.
+app.post(
+  '/api/todoist/sync-assignments/preview',
+  requireAuth,
+  validate({ body: syncPreviewBody }),
+  requireOwnership('course', (req) => (req.body as SyncPreviewBody).courseIds),
+  todoistPreviewRateLimit,
+  async (req, res) => {
+    try {
+      const userId = getUserIdFromRequest(req);
+      const { courseIds, prioritySettings, detectionSettings } = req.body as SyncPreviewBody;
+
+      const changes = await previewTodoistSync(userId, courseIds, { prioritySettings, detectionSettings });
+      return res.json({ changes });
+    } catch (err) {
+      console.error('Error previewing Todoist sync', err);
+      return res.status(500).json({
+        error:
+          err instanceof Error ? err.message : 'Failed to preview Todoist sync',
+      });
+    }
+  },
+);
+
+app.get('/api/sync-settings', requireAuth, async (req, res) => {
   try {
     const userId = getUserIdFromRequest(req);
-    const { courseIds, prioritySettings, detectionSettings } = req.body as {
-      courseIds?: string[];
-      prioritySettings?: import('./services/todoistService').PrioritySettingsInput;
-      detectionSettings?: import('./services/todoistService').SyncWindowOptions;
-    };
-
-    if (!courseIds || !Array.isArray(courseIds) || courseIds.length === 0) {
-      return res.status(400).json({ error: 'courseIds must be a non-empty array' });
-    }
+    const settings = await getSyncSettings(userId);
+    return res.json(settings);
+  } catch (err) {
+    console.error('Error loading sync settings', err);
+    return res.status(500).json({ error: 'Failed to load sync settings' });
+  }
+});
 
-    const result = await syncAssignmentsToTodoist(userId, courseIds, prioritySettings, detectionSettings ?? {});
-    return res.json({
-      message: 'Synced assignments to Todoist',
-      ...result,
-    });
+app.post('/api/sync-settings', requireAuth, validate({ body: syncSettingsBody }), async (req, res) => {
+  try {
+    const userId = getUserIdFromRequest(req);
+    const settings = await updateSyncSettings(userId, req.body as SyncSettingsBody);
+    return res.json(settings);
   } catch (err) {
-    console.error('Error syncing assignments to Todoist', err);
-    return res.status(500).json({
-      error:
-        err instanceof Error ? err.message : 'Failed to sync assignments to Todoist',
-    });
+    console.error('Error saving sync settings', err);
+    return res.status(500).json({ error: 'Failed to save sync settings' });
   }
 });
 
-app.get('/api/auto-sync', requireAuth, (_req, res) => {
-  return res.json({
-    enabled: autoSyncIntervalMinutes > 0,
-    intervalMinutes: autoSyncIntervalMinutes,
-  });
+app.get('/api/auto-sync', requireAuth, async (req, res) => {
+  try {
+    const userId = getUserIdFromRequest(req);
+    const state = await getAutoSyncState(userId);
+    return res.json(state);
+  } catch (err) {
+    console.error('Error loading auto-sync settings', err);
+    return res.status(500).json({ error: 'Failed to load auto-sync settings' });
+  }
 });
 
 app.get('/api/sync-runs', requireAuth, async (req, res) => {
@@ -425,10 +932,12 @@ app.get('/api/sync-runs', requireAuth, async (req, res) => {
     return res.json({
       runs: runs.map((r) => ({
         id: r.id,
+        kind: r.kind,
         startedAt: r.startedAt ?? r.createdAt,
         finishedAt: r.finishedAt,
         status: r.status,
         message: r.message,
+        retries: r.retryCount,
       })),
     });
   } catch (err) {
@@ -437,35 +946,136 @@ app.get('/api/sync-runs', requireAuth, async (req, res) => {
   }
 });
 
-let autoSyncUserId: string | null = null;
+app.get(
+  '/api/sync-runs/:id',
+  requireAuth,
+  validate({ params: idParams }),
+  requireOwnership('syncRun', (req) => (req.params as IdParams).id),
+  async (req, res) => {
+    try {
+      const { id } = req.params as IdParams;
+      const run = await prisma.syncRun.findUnique({
+        where: { id },
+        include: { items: { orderBy: { createdAt: 'asc' } } },
+      });
 
-app.post('/api/auto-sync', requireAuth, async (req, res) => {
-  const userId = getUserIdFromRequest(req);
-  const { enabled, intervalMinutes } = req.body as {
-    enabled?: boolean;
-    intervalMinutes?: number;
-  };
-
-  if (!enabled) {
-    configureAutoSync(0);
-    autoSyncUserId = null;
-    await prisma.user.update({
-      where: { id: userId },
-      data: { autoSyncIntervalMinutes: null },
-    });
-    return res.json({ enabled: false, intervalMinutes: 0 });
+      if (!run) {
+        return res.status(404).json({ error: 'Sync run not found' });
+      }
+
+      return res.json({
+        run: {
+          id: run.id,
+          kind: run.kind,
+          startedAt: run.startedAt ?? run.createdAt,
+          finishedAt: run.finishedAt,
+          status: run.status,
+          message: run.message,
+          retries: run.retryCount,
+        },
+        items: run.items.map((item) => ({
+          id: item.id,
+          assignmentId: item.assignmentId,
+          assignmentName: item.assignmentName,
+          courseName: item.courseName,
+          action: item.action,
+          reason: item.reason,
+          todoistTaskId: item.todoistTaskId,
+          dueDateBefore: item.dueDateBefore,
+          dueDateAfter: item.dueDateAfter,
+          priorityBefore: item.priorityBefore,
+          priorityAfter: item.priorityAfter,
+        })),
+      });
+    } catch (err) {
+      console.error('Error loading sync run details', err);
+      return res.status(500).json({ error: 'Failed to load sync run details' });
+    }
+  },
+);
+
+app.post('/api/auto-sync', requireAuth, validate({ body: autoSyncBody }), async (req, res) => {
+  try {
+    const userId = getUserIdFromRequest(req);
+    const { enabled, intervalMinutes, days, time, timezone } = req.body as AutoSyncBody;
+
+    if (!enabled) {
+      const state = await configureAutoSync(userId, null);
+      return res.json(state);
+    }
+
+    // A weekday/time-of-day schedule takes precedence over a fixed interval.
+    const schedule: AutoSyncSchedule = days
+      ? { kind: 'weekly', days, time: time ?? '', timezone: timezone || 'UTC' }
+      : { kind: 'interval', intervalMinutes: intervalMinutes ?? 60 };
+
+    const validationError = validateAutoSyncSchedule(schedule);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    const state = await configureAutoSync(userId, schedule);
+    return res.json(state);
+  } catch (err) {
+    console.error('Error saving auto-sync settings', err);
+    return res.status(500).json({ error: 'Failed to save auto-sync settings' });
   }
+});
 
-  const minutes = typeof intervalMinutes === 'number' && intervalMinutes > 0 ? intervalMinutes : 60;
-  autoSyncUserId = userId;
-  configureAutoSync(minutes);
-  await prisma.user.update({
-    where: { id: userId },
-    data: { autoSyncIntervalMinutes: minutes },
-  });
-  return res.json({ enabled: true, intervalMinutes: minutes });
+// Devices currently signed in to this account.
+app.get('/api/sessions', requireAuth, async (req, res) => {
+  try {
+    const userId = getUserIdFromRequest(req);
+    const sessions = await listSessions(userId, getSessionIdFromRequest(req));
+    return res.json({ sessions });
+  } catch (err) {
+    console.error('Error loading sessions', err);
+    return res.status(500).json({ error: 'Failed to load sessions' });
+  }
 });
 
-app.listen(port, () => {
-  console.log(`Backend listening on port ${port}`);
+// Sign out every device except this one.
+app.post('/api/sessions/revoke-others', requireAuth, async (req, res) => {
+  try {
+    const userId = getUserIdFromRequest(req);
+    const revoked = await revokeOtherSessions(userId, getSessionIdFromRequest(req));
+    return res.json({ revoked });
+  } catch (err) {
+    console.error('Error revoking other sessions', err);
+    return res.status(500).json({ error: 'Failed to sign out other devices' });
+  }
+});
+
+app.delete('/api/sessions/:id', requireAuth, validate({ params: idParams }), async (req, res) => {
+  try {
+    const userId = getUserIdFromRequest(req);
+    const { id } = req.params as IdParams;
+    const revoked = await revokeSession(userId, id);
+    if (!revoked) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+    if (id === getSessionIdFromRequest(req)) {
+      clearSessionCookie(res);
+    }
+    return res.json({ success: true });
+  } catch (err) {
+    console.error('Error revoking session', err);
+    return res.status(500).json({ error: 'Failed to sign out session' });
+  }
 });
+
+// Only listen (and start the scheduler) when run as the entry point, not when tests import the app.
+if (require.main === module) {
+  // Fail now rather than on the first password reset if mail isn't configured.
+  getMailTransport();
+
+  app.listen(port, () => {
+    console.log(`Backend listening on port ${port}`);
+
+    startAutoSyncScheduler().catch((err) => {
+      console.error('Failed to start auto-sync scheduler', err);
+    });
+  });
+}
+
+export { app };
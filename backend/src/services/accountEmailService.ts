@@ -0,0 +1,131 @@
+import crypto from 'crypto';
+import bcrypt from 'bcryptjs';
+import { prisma } from '../prisma';
+import { buildFrontendUrl } from '../auth';
+import { clearLoginFailures } from '../rateLimit';
+import { sendMail } from './mailService';
+import { revokeOtherSessions } from './sessionService';
+
+export type AuthTokenKind = 'PASSWORD_RESET' | 'EMAIL_VERIFICATION';
+
+const TOKEN_TTL_MS: Record<AuthTokenKind, number> = {
+  PASSWORD_RESET: 60 * 60 * 1000, // 1 hour
+  EMAIL_VERIFICATION: 24 * 60 * 60 * 1000, // 1 day
+};
+
+const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+// Create a new single-use token, invalidating any unused ones of the same kind.
+async function issueAuthToken(userId: string, kind: AuthTokenKind, email: string | null): Promise<string> {
+  const token = crypto.randomBytes(32).toString('base64url');
+
+  await prisma.authToken.deleteMany({ where: { userId, kind, usedAt: null } });
+  await prisma.authToken.create({
+    data: {
+      userId,
+      kind,
+      email,
+      tokenHash: hashToken(token),
+      expiresAt: new Date(Date.now() + TOKEN_TTL_MS[kind]),
+    },
+  });
+
+  return token;
+}
+
+// Mark a token as used and return it, or null if it is unknown, expired or already used.
+// The update is conditional on `usedAt` still being null, so a token can't be redeemed twice
+// by concurrent requests.
+async function consumeAuthToken(token: string, kind: AuthTokenKind) {
+  const record = await prisma.authToken.findUnique({ where: { tokenHash: hashToken(token) } });
+  if (!record || record.kind !== kind || record.usedAt || record.expiresAt <= new Date()) {
+    return null;
+  }
+
+  const result = await prisma.authToken.updateMany({
+    where: { id: record.id, usedAt: null },
+    data: { usedAt: new Date() },
+  });
+  return result.count === 1 ? record : null;
+}
+
+export async function sendVerificationEmail(userId: string): Promise<void> {
+  const user = await prisma.user.findUnique({ where: { id: userId } });
+  if (!user?.email) {
+    throw new Error('This account has no email address to verify.');
+  }
+  if (user.emailVerifiedAt) return;
+
+  const token = await issueAuthToken(user.id, 'EMAIL_VERIFICATION', user.email);
+  await sendMail({
+    to: user.email,
+    subject: 'Confirm your email for Tasklink',
+    text: [
+      'Confirm your email address for Tasklink by opening this link:',
+      '',
+      buildFrontendUrl({ verify: token }),
+      '',
+      'The link expires in 24 hours. If you did not create a Tasklink account, you can ignore this email.',
+    ].join('\n'),
+  });
+}
+
+// Returns false if the link is invalid or expired.
+export async function verifyEmail(token: string): Promise<boolean> {
+  const record = await consumeAuthToken(token, 'EMAIL_VERIFICATION');
+  if (!record) return false;
+
+  // Only verify the address the link was sent to; the user may have changed it since.
+  const result = await prisma.user.updateMany({
+    where: { id: record.userId, email: record.email },
+    data: { emailVerifiedAt: new Date() },
+  });
+  return result.count > 0;
+}
+
+// Resolves the same way whether or not the email belongs to an account, so this can't
+// be used to find out who uses Tasklink. It takes longer when it does, though, so
+// request handlers shouldn't wait for it.
+export async function requestPasswordReset(email: string): Promise<void> {
+  const user = await prisma.user.findUnique({ where: { email: email.toLowerCase() } });
+  if (!user?.email) return;
+
+  const token = await issueAuthToken(user.id, 'PASSWORD_RESET', user.email);
+  await sendMail({
+    to: user.email,
+    subject: 'Reset your Tasklink password',
+    text: [
+      'Someone asked to reset the password for your Tasklink account.',
+      'Choose a new password by opening this link:',
+      '',
+      buildFrontendUrl({ reset: token }),
+      '',
+      'The link expires in 1 hour. If you did not ask for this, you can ignore this email.',
+    ].join('\n'),
+  });
+}
+
+// Set a new password from a reset link. Signs the account out everywhere, since whoever
+// knew the old password shouldn't stay signed in, and lifts any login lockout.
+// Returns false for invalid links.
+export async function resetPassword(token: string, password: string): Promise<boolean> {
+  const record = await consumeAuthToken(token, 'PASSWORD_RESET');
+  if (!record) return false;
+
+  const passwordHash = await bcrypt.hash(password, 10);
+  const user = await prisma.user.update({
+    where: { id: record.userId },
+    data: { passwordHash },
+  });
+
+  // Receiving the reset link proves the user controls the inbox.
+  if (!user.emailVerifiedAt && user.email && user.email === record.email) {
+    await prisma.user.update({ where: { id: user.id }, data: { emailVerifiedAt: new Date() } });
+  }
+
+  await revokeOtherSessions(user.id, null);
+  if (user.email) {
+    await clearLoginFailures(user.email);
+  }
+  return true;
+}
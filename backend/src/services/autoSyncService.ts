@@ -0,0 +1,368 @@
+import { prisma } from '../prisma';
+import { getZonedParts, isValidTimeZone, zonedTimeToUtc } from '../timezone';
+import { fetchAndStoreUpcomingAssignments } from './canvasService';
+import { syncAssignmentsToTodoist } from './todoistService';
+import { autoProvisionTodoistProjects } from './todoistProjectService';
+
+const MS_PER_MINUTE = 60 * 1000;
+
+// setTimeout stores its delay as a 32-bit signed int. Longer waits are split into
+// several timers; each wake-up re-reads the schedule from the database.
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
+// Space out catch-up runs on boot so a restart doesn't fire every overdue user at once.
+const BOOT_STAGGER_MS = 5 * 1000;
+
+// When a timer fails (e.g. the database is briefly unreachable), try again after this
+// long, doubling on each consecutive failure up to the max.
+const TIMER_RETRY_BASE_MS = MS_PER_MINUTE;
+const TIMER_RETRY_MAX_MS = 60 * MS_PER_MINUTE;
+
+const DEFAULT_TIMEZONE = 'UTC';
+
+// Longest interval schedule: once a week. Anything more is better expressed as a weekly schedule.
+export const MAX_AUTO_SYNC_INTERVAL_MINUTES = 7 * 24 * 60;
+
+const TIME_OF_DAY_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+// Either a fixed interval ("every 60 minutes") or a weekly schedule evaluated in the
+// user's timezone ("Fridays at 17:00").
+export type AutoSyncSchedule =
+  | { kind: 'interval'; intervalMinutes: number }
+  | { kind: 'weekly'; days: number[]; time: string; timezone: string };
+
+export interface AutoSyncState {
+  enabled: boolean;
+  mode: 'interval' | 'weekly' | null;
+  intervalMinutes: number;
+  days: number[]; // 0 = Sunday ... 6 = Saturday
+  time: string | null; // local "HH:MM"
+  timezone: string | null;
+  nextRunAt: Date | null;
+  lastRunAt: Date | null;
+}
+
+const scheduleSelect = {
+  autoSyncIntervalMinutes: true,
+  autoSyncDays: true,
+  autoSyncTime: true,
+  timezone: true,
+  autoSyncNextRunAt: true,
+  autoSyncLastRunAt: true,
+} as const;
+
+interface ScheduleRow {
+  autoSyncIntervalMinutes: number | null;
+  autoSyncDays: string | null;
+  autoSyncTime: string | null;
+  timezone: string | null;
+}
+
+// One timer per user with auto-sync enabled. The database (`User.autoSyncNextRunAt`)
+// is the source of truth; these timers only wake the process up when a run is due.
+const timers = new Map<string, NodeJS.Timeout>();
+
+// Users whose auto-sync run is currently in progress, so a slow run never overlaps
+// with the next one.
+const runningUsers = new Set<string>();
+
+function parseDays(raw: string | null): number[] {
+  if (!raw) return [];
+  const days = raw
+    .split(',')
+    .map((d) => Number(d.trim()))
+    .filter((d) => Number.isInteger(d) && d >= 0 && d <= 6);
+  return Array.from(new Set(days)).sort((a, b) => a - b);
+}
+
+function scheduleFromRow(row: ScheduleRow | null): AutoSyncSchedule | null {
+  if (!row) return null;
+
+  const days = parseDays(row.autoSyncDays);
+  if (days.length > 0 && row.autoSyncTime && TIME_OF_DAY_PATTERN.test(row.autoSyncTime)) {
+    const timezone = row.timezone && isValidTimeZone(row.timezone) ? row.timezone : DEFAULT_TIMEZONE;
+    return { kind: 'weekly', days, time: row.autoSyncTime, timezone };
+  }
+
+  const intervalMinutes = row.autoSyncIntervalMinutes ?? 0;
+  if (intervalMinutes > 0) {
+    return { kind: 'interval', intervalMinutes };
+  }
+
+  return null;
+}
+
+// Validate a schedule coming from the API. Returns an error message, or null if valid.
+export function validateAutoSyncSchedule(schedule: AutoSyncSchedule): string | null {
+  if (schedule.kind === 'interval') {
+    if (!(schedule.intervalMinutes > 0)) return 'intervalMinutes must be a positive number';
+    return schedule.intervalMinutes <= MAX_AUTO_SYNC_INTERVAL_MINUTES
+      ? null
+      : `intervalMinutes must be at most ${MAX_AUTO_SYNC_INTERVAL_MINUTES} (one week)`;
+  }
+  if (schedule.days.length === 0 || schedule.days.some((d) => !Number.isInteger(d) || d < 0 || d > 6)) {
+    return 'days must be a non-empty list of weekdays (0 = Sunday ... 6 = Saturday)';
+  }
+  if (!TIME_OF_DAY_PATTERN.test(schedule.time)) {
+    return 'time must be in HH:MM (24-hour) format';
+  }
+  if (!isValidTimeZone(schedule.timezone)) {
+    return `Unknown timezone "${schedule.timezone}"`;
+  }
+  return null;
+}
+
+// Compute the first run strictly after `from` for the given schedule.
+export function computeNextRunAt(schedule: AutoSyncSchedule, from: Date = new Date()): Date {
+  if (schedule.kind === 'interval') {
+    return new Date(from.getTime() + schedule.intervalMinutes * MS_PER_MINUTE);
+  }
+
+  const [hour, minute] = schedule.time.split(':').map(Number);
+  const today = getZonedParts(from, schedule.timezone);
+
+  // Walk forward day by day in the user's calendar; a full week plus today always
+  // contains at least one matching weekday.
+  for (let offset = 0; offset <= 7; offset += 1) {
+    const calendarDay = new Date(Date.UTC(today.year, today.month - 1, today.day + offset));
+    if (!schedule.days.includes(calendarDay.getUTCDay())) continue;
+
+    const candidate = zonedTimeToUtc(
+      calendarDay.getUTCFullYear(),
+      calendarDay.getUTCMonth() + 1,
+      calendarDay.getUTCDate(),
+      hour,
+      minute,
+      schedule.timezone,
+    );
+    if (candidate.getTime() > from.getTime()) {
+      return candidate;
+    }
+  }
+
+  // Unreachable for a validated schedule; fall back to a day from now.
+  return new Date(from.getTime() + 24 * 60 * MS_PER_MINUTE);
+}
+
+async function runAutoSyncForUser(userId: string) {
+  // Fetch latest Canvas assignments first, using default detection options (all future, include no-due-date).
+  const fetched = await fetchAndStoreUpcomingAssignments(userId);
+
+  // New courses get their own Todoist project first if the user opted in. Courses that are
+  // already mapped should still sync when that fails.
+  try {
+    await autoProvisionTodoistProjects(userId, fetched.courseIds);
+  } catch (err) {
+    // eslint-disable-next-line no-console
+    console.error(`Auto-sync could not create Todoist projects for user ${userId}`, err);
+  }
+
+  // Sync all courses that have a mapped Todoist project for this user.
+  const mappedCourses = await prisma.course.findMany({
+    where: { userId, todoistProjectId: { not: null } },
+    select: { id: true },
+  });
+
+  if (mappedCourses.length === 0) return;
+
+  await syncAssignmentsToTodoist(userId, mappedCourses.map((c) => c.id));
+}
+
+function clearUserTimer(userId: string) {
+  const timer = timers.get(userId);
+  if (timer) {
+    clearTimeout(timer);
+    timers.delete(userId);
+  }
+}
+
+function scheduleUser(userId: string, runAt: Date) {
+  clearUserTimer(userId);
+
+  const delay = Math.min(Math.max(0, runAt.getTime() - Date.now()), MAX_TIMER_DELAY_MS);
+  const timer = setTimeout(() => {
+    timers.delete(userId);
+    void handleTimer(userId);
+  }, delay);
+
+  timers.set(userId, timer);
+}
+
+// Consecutive failed timers per user, for the retry backoff.
+const timerFailures = new Map<string, number>();
+
+// Timer callback: never rejects, and never leaves the user without a timer because of an error.
+async function handleTimer(userId: string) {
+  try {
+    await runTimer(userId);
+    timerFailures.delete(userId);
+  } catch (err) {
+    const failures = (timerFailures.get(userId) ?? 0) + 1;
+    timerFailures.set(userId, failures);
+    const delay = Math.min(TIMER_RETRY_BASE_MS * 2 ** (failures - 1), TIMER_RETRY_MAX_MS);
+    // eslint-disable-next-line no-console
+    console.error(`Auto-sync timer failed for user ${userId}; retrying in ${delay / MS_PER_MINUTE} minute(s)`, err);
+    scheduleUser(userId, new Date(Date.now() + delay));
+  }
+}
+
+async function runTimer(userId: string) {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: scheduleSelect,
+  });
+
+  const schedule = scheduleFromRow(user);
+  if (!user || !schedule) return;
+
+  // The schedule may have moved (or we woke up early from a clamped timer).
+  if (user.autoSyncNextRunAt && user.autoSyncNextRunAt.getTime() > Date.now()) {
+    scheduleUser(userId, user.autoSyncNextRunAt);
+    return;
+  }
+
+  if (runningUsers.has(userId)) return;
+
+  // Claim the due run by moving autoSyncNextRunAt past it. With several backend instances
+  // every one of them has a timer for this user; only the one whose update matches the due
+  // time runs the sync, the others follow the stored schedule.
+  const startedAt = new Date();
+  const claim = await prisma.user.updateMany({
+    where: { id: userId, autoSyncNextRunAt: user.autoSyncNextRunAt },
+    data: {
+      autoSyncLastRunAt: startedAt,
+      autoSyncNextRunAt: computeNextRunAt(schedule, startedAt),
+    },
+  });
+  if (claim.count === 0) {
+    await rescheduleFromDatabase(userId);
+    return;
+  }
+
+  runningUsers.add(userId);
+  try {
+    await runAutoSyncForUser(userId);
+  } catch (err) {
+    // The sync run itself is recorded as a SyncRun; just log here and keep the schedule going.
+    // eslint-disable-next-line no-console
+    console.error(`Auto-sync run failed for user ${userId}`, err);
+  } finally {
+    runningUsers.delete(userId);
+  }
+
+  // The user may have changed or disabled auto-sync while the run was in flight; the
+  // stored next-run time already reflects that.
+  await rescheduleFromDatabase(userId);
+}
+
+// Arm the user's timer for the next run stored in the database, if auto-sync is still on.
+async function rescheduleFromDatabase(userId: string) {
+  const latest = await prisma.user.findUnique({
+    where: { id: userId },
+    select: scheduleSelect,
+  });
+  const latestSchedule = scheduleFromRow(latest);
+  if (!latest || !latestSchedule) return;
+
+  scheduleUser(userId, latest.autoSyncNextRunAt ?? computeNextRunAt(latestSchedule));
+}
+
+// Load every user with auto-sync enabled and arm their timers. Runs missed while the
+// backend was down are caught up shortly after boot.
+export async function startAutoSyncScheduler() {
+  const users = await prisma.user.findMany({
+    where: {
+      OR: [{ autoSyncIntervalMinutes: { gt: 0 } }, { autoSyncDays: { not: null } }],
+    },
+    select: { id: true, ...scheduleSelect },
+  });
+
+  const now = Date.now();
+  let scheduled = 0;
+  let overdue = 0;
+
+  for (const user of users) {
+    const schedule = scheduleFromRow(user);
+    if (!schedule) continue;
+
+    let nextRunAt = user.autoSyncNextRunAt;
+
+    if (!nextRunAt) {
+      nextRunAt = computeNextRunAt(schedule, new Date(now));
+      await prisma.user.update({
+        where: { id: user.id },
+        data: { autoSyncNextRunAt: nextRunAt },
+      });
+    } else if (nextRunAt.getTime() <= now) {
+      nextRunAt = new Date(now + overdue * BOOT_STAGGER_MS);
+      overdue += 1;
+    }
+
+    scheduleUser(user.id, nextRunAt);
+    scheduled += 1;
+  }
+
+  // eslint-disable-next-line no-console
+  console.log(`Auto-sync scheduler started for ${scheduled} user(s).`);
+}
+
+export async function getAutoSyncState(userId: string): Promise<AutoSyncState> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: scheduleSelect,
+  });
+
+  const schedule = scheduleFromRow(user);
+  return {
+    enabled: !!schedule,
+    mode: schedule?.kind ?? null,
+    intervalMinutes: schedule?.kind === 'interval' ? schedule.intervalMinutes : 0,
+    days: schedule?.kind === 'weekly' ? schedule.days : [],
+    time: schedule?.kind === 'weekly' ? schedule.time : null,
+    timezone: user?.timezone ?? null,
+    nextRunAt: schedule ? user?.autoSyncNextRunAt ?? null : null,
+    lastRunAt: user?.autoSyncLastRunAt ?? null,
+  };
+}
+
+// Persist a user's auto-sync schedule and (re)arm their timer. Passing null turns
+// auto-sync off for that user only.
+export async function configureAutoSync(userId: string, schedule: AutoSyncSchedule | null): Promise<AutoSyncState> {
+  if (!schedule) {
+    clearUserTimer(userId);
+    await prisma.user.update({
+      where: { id: userId },
+      data: {
+        autoSyncIntervalMinutes: null,
+        autoSyncDays: null,
+        autoSyncTime: null,
+        autoSyncNextRunAt: null,
+      },
+    });
+    return getAutoSyncState(userId);
+  }
+
+  const nextRunAt = computeNextRunAt(schedule);
+
+  await prisma.user.update({
+    where: { id: userId },
+    data:
+      schedule.kind === 'interval'
+        ? {
+            autoSyncIntervalMinutes: schedule.intervalMinutes,
+            autoSyncDays: null,
+            autoSyncTime: null,
+            autoSyncNextRunAt: nextRunAt,
+          }
+        : {
+            autoSyncIntervalMinutes: null,
+            autoSyncDays: schedule.days.join(','),
+            autoSyncTime: schedule.time,
+            timezone: schedule.timezone,
+            autoSyncNextRunAt: nextRunAt,
+          },
+  });
+  scheduleUser(userId, nextRunAt);
+
+  return getAutoSyncState(userId);
+}
@@ -0,0 +1,202 @@
+import { createHttpStats, http, type HttpStats } from '../httpClient';
+import { prisma } from '../prisma';
+import { decryptToken, encryptOptionalToken, encryptToken } from '../tokenCrypto';
+
+// Refresh access tokens this long before Canvas says they expire, so a request
+// started just before expiry doesn't fail halfway through a sync.
+const REFRESH_SKEW_MS = 5 * 60 * 1000;
+
+interface CanvasTokenResponse {
+  access_token: string;
+  refresh_token?: string;
+  expires_in?: number; // seconds
+  user?: { id?: number | string; name?: string };
+}
+
+export interface CanvasOAuthTokens {
+  accessToken: string;
+  refreshToken: string | null;
+  tokenExpiresAt: Date | null;
+  canvasUserId: string | null;
+}
+
+// What the Canvas HTTP layer needs to make authenticated requests for one user.
+// `getAccessToken` refreshes OAuth tokens when they are about to expire (or when
+// `forceRefresh` is set after a 401); pasted personal tokens are returned as-is.
+export interface CanvasSession {
+  userId: string;
+  baseUrl: string;
+  canRefresh: boolean;
+  getAccessToken(forceRefresh?: boolean): Promise<string>;
+  // Requests and retries made through this session, recorded on the sync run.
+  httpStats: HttpStats;
+}
+
+// The Canvas instance the developer key belongs to.
+function getCanvasOAuthBaseUrl(): string {
+  return (process.env.CANVAS_BASE_URL ?? '').replace(/\/$/, '');
+}
+
+export function isCanvasOAuthConfigured(): boolean {
+  return !!(process.env.CANVAS_CLIENT_ID && process.env.CANVAS_CLIENT_SECRET && getCanvasOAuthBaseUrl());
+}
+
+export function buildCanvasAuthorizeUrl(redirectUri: string, state: string): string {
+  const params = new URLSearchParams({
+    client_id: process.env.CANVAS_CLIENT_ID ?? '',
+    response_type: 'code',
+    redirect_uri: redirectUri,
+    state,
+  });
+  return `${getCanvasOAuthBaseUrl()}/login/oauth2/auth?${params.toString()}`;
+}
+
+function toTokens(data: CanvasTokenResponse, previousRefreshToken: string | null): CanvasOAuthTokens {
+  return {
+    accessToken: data.access_token,
+    // Canvas only issues a refresh token on the initial exchange.
+    refreshToken: data.refresh_token ?? previousRefreshToken,
+    tokenExpiresAt: typeof data.expires_in === 'number' ? new Date(Date.now() + data.expires_in * 1000) : null,
+    canvasUserId: data.user?.id != null ? String(data.user.id) : null,
+  };
+}
+
+async function requestCanvasToken(baseUrl: string, params: Record<string, string>): Promise<CanvasTokenResponse> {
+  const res = await http.post<CanvasTokenResponse>(
+    `${baseUrl}/login/oauth2/token`,
+    new URLSearchParams({
+      client_id: process.env.CANVAS_CLIENT_ID ?? '',
+      client_secret: process.env.CANVAS_CLIENT_SECRET ?? '',
+      ...params,
+    }).toString(),
+    { headers: { 'Content-Type': 'application/x-www-form-urlencoded' } },
+  );
+  return res.data;
+}
+
+// Exchange the authorization code from /auth/canvas/callback and store the tokens on
+// the user's Canvas account.
+export async function completeCanvasOAuth(userId: string, code: string, redirectUri: string) {
+  const baseUrl = getCanvasOAuthBaseUrl();
+  const data = await requestCanvasToken(baseUrl, {
+    grant_type: 'authorization_code',
+    redirect_uri: redirectUri,
+    code,
+  });
+  const tokens = toTokens(data, null);
+
+  const account = await prisma.canvasAccount.upsert({
+    where: { userId },
+    update: {
+      baseUrl,
+      accessToken: encryptToken(tokens.accessToken),
+      refreshToken: encryptOptionalToken(tokens.refreshToken),
+      tokenExpiresAt: tokens.tokenExpiresAt,
+      needsReconnect: false,
+    },
+    create: {
+      userId,
+      baseUrl,
+      accessToken: encryptToken(tokens.accessToken),
+      refreshToken: encryptOptionalToken(tokens.refreshToken),
+      tokenExpiresAt: tokens.tokenExpiresAt,
+    },
+  });
+
+  // Remember which Canvas user this is, unless another Tasklink account already claimed it.
+  if (tokens.canvasUserId) {
+    const owner = await prisma.user.findUnique({ where: { canvasUserId: tokens.canvasUserId } });
+    if (!owner) {
+      await prisma.user.update({ where: { id: userId }, data: { canvasUserId: tokens.canvasUserId } });
+    }
+  }
+
+  return account;
+}
+
+// In-flight refreshes per user, so concurrent requests (e.g. auto-sync and a manual
+// fetch) share one refresh instead of racing with the same refresh token.
+const refreshing = new Map<string, Promise<string>>();
+
+async function refreshCanvasToken(userId: string): Promise<string> {
+  const account = await prisma.canvasAccount.findUnique({ where: { userId } });
+  if (!account || !account.refreshToken) {
+    throw new Error('Canvas configuration not found. Please connect Canvas first.');
+  }
+
+  const refreshToken = decryptToken(account.refreshToken);
+  let data: CanvasTokenResponse;
+  try {
+    data = await requestCanvasToken(account.baseUrl, {
+      grant_type: 'refresh_token',
+      refresh_token: refreshToken,
+    });
+  } catch (err) {
+    const status = (err as { response?: { status?: number } })?.response?.status;
+    // Canvas rejected the refresh token (revoked, expired or the developer key changed).
+    // Network errors and 5xx are left alone so the next attempt can retry.
+    if (status && status >= 400 && status < 500) {
+      await prisma.canvasAccount.update({
+        where: { userId },
+        data: { needsReconnect: true },
+      });
+      throw new Error('Your Canvas connection has expired. Please reconnect Canvas in settings.');
+    }
+    throw err;
+  }
+
+  const tokens = toTokens(data, refreshToken);
+  await prisma.canvasAccount.update({
+    where: { userId },
+    data: {
+      accessToken: encryptToken(tokens.accessToken),
+      refreshToken: encryptOptionalToken(tokens.refreshToken),
+      tokenExpiresAt: tokens.tokenExpiresAt,
+      needsReconnect: false,
+    },
+  });
+
+  return tokens.accessToken;
+}
+
+function refreshOnce(userId: string): Promise<string> {
+  let pending = refreshing.get(userId);
+  if (!pending) {
+    pending = refreshCanvasToken(userId).finally(() => refreshing.delete(userId));
+    refreshing.set(userId, pending);
+  }
+  return pending;
+}
+
+export async function createCanvasSession(userId: string): Promise<CanvasSession> {
+  const account = await prisma.canvasAccount.findUnique({ where: { userId } });
+  if (!account) {
+    throw new Error('Canvas configuration not found. Please save Canvas base URL and token first.');
+  }
+  if (account.needsReconnect) {
+    throw new Error('Your Canvas connection has expired. Please reconnect Canvas in settings.');
+  }
+
+  let accessToken = decryptToken(account.accessToken);
+  let expiresAt = account.tokenExpiresAt;
+  const canRefresh = !!account.refreshToken;
+
+  return {
+    userId,
+    baseUrl: account.baseUrl,
+    canRefresh,
+    httpStats: createHttpStats(),
+    async getAccessToken(forceRefresh = false) {
+      const expiringSoon = !!expiresAt && expiresAt.getTime() - REFRESH_SKEW_MS <= Date.now();
+      if (canRefresh && (forceRefresh || expiringSoon)) {
+        accessToken = await refreshOnce(userId);
+        const refreshed = await prisma.canvasAccount.findUnique({
+          where: { userId },
+          select: { tokenExpiresAt: true },
+        });
+        expiresAt = refreshed?.tokenExpiresAt ?? null;
+      }
+      return accessToken;
+    },
+  };
+}
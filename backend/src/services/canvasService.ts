@@ -1,5 +1,15 @@
-import axios from 'axios';
+import type { AxiosResponse } from 'axios';
+import { http } from '../httpClient';
 import { prisma } from '../prisma';
+import { encryptToken } from '../tokenCrypto';
+import { isValidTimeZone, toCalendarDate } from '../timezone';
+import { createCanvasSession, type CanvasSession } from './canvasOAuthService';
+import { createSyncLog } from './syncLog';
+
+// Used until we learn the user's timezone from their Canvas profile.
+const DEFAULT_CANVAS_TIMEZONE = 'America/Los_Angeles';
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
 
 export interface UpsertCanvasConfigParams {
   userId: string;
@@ -8,8 +18,11 @@ export interface UpsertCanvasConfigParams {
 }
 
 export interface FetchAssignmentsResult {
+  syncRunId: string;
   coursesProcessed: number;
   assignmentsUpserted: number;
+  // Tasklink ids of the courses Canvas returned in this fetch (current enrollments only).
+  courseIds: string[];
 }
 
 export interface FetchAssignmentsOptions {
@@ -19,26 +32,133 @@ export interface FetchAssignmentsOptions {
   includeNoDueDate?: boolean;
 }
 
+// Kinds of Canvas work Tasklink imports. Assignments come from the course assignments
+// API (graded quizzes and discussions included); the rest come from the Canvas Planner.
+export type CanvasItemType = 'assignment' | 'quiz' | 'discussion' | 'page' | 'note';
+
+export const CANVAS_ITEM_TYPES: CanvasItemType[] = ['assignment', 'quiz', 'discussion', 'page', 'note'];
+
+export function isCanvasItemType(value: unknown): value is CanvasItemType {
+  return typeof value === 'string' && (CANVAS_ITEM_TYPES as string[]).includes(value);
+}
+
+// The stored item-type selection (User.importItemTypes) in CANVAS_ITEM_TYPES order.
+// Anything but a list, e.g. null for users who never chose, means every type.
+export function parseItemTypes(value: unknown): CanvasItemType[] {
+  if (!Array.isArray(value)) return [...CANVAS_ITEM_TYPES];
+  return CANVAS_ITEM_TYPES.filter((type) => value.includes(type));
+}
+
+export interface CanvasTimeZoneState {
+  // The timezone due dates are interpreted in.
+  timezone: string;
+  detected: string | null;
+  override: string | null;
+}
+
 function normalizeBaseUrl(baseUrl: string): string {
   return baseUrl.replace(/\/$/, '');
 }
 
+function resolveCanvasTimeZone(
+  account: { timezone: string | null; timezoneOverride: string | null } | null | undefined,
+): string {
+  if (account?.timezoneOverride && isValidTimeZone(account.timezoneOverride)) return account.timezoneOverride;
+  if (account?.timezone && isValidTimeZone(account.timezone)) return account.timezone;
+  return DEFAULT_CANVAS_TIMEZONE;
+}
+
+// Best-effort lookup of the timezone set on the user's Canvas profile (which defaults
+// to the institution's timezone). Returns null if Canvas doesn't tell us.
+async function fetchCanvasProfileTimeZone(session: CanvasSession): Promise<string | null> {
+  try {
+    const res = await canvasGet<{ time_zone?: string | null }>(session, `${session.baseUrl}/api/v1/users/self/profile`);
+    const timeZone = res.data?.time_zone;
+    return timeZone && isValidTimeZone(timeZone) ? timeZone : null;
+  } catch (err) {
+    // eslint-disable-next-line no-console
+    console.warn('Could not read the timezone from the Canvas profile.', err);
+    return null;
+  }
+}
+
+// Re-read the Canvas profile timezone and store it on the account if it changed.
+async function updateDetectedTimeZone(session: CanvasSession, current: string | null): Promise<string | null> {
+  const detected = await fetchCanvasProfileTimeZone(session);
+  if (detected && detected !== current) {
+    await prisma.canvasAccount.update({
+      where: { userId: session.userId },
+      data: { timezone: detected },
+    });
+  }
+  return detected;
+}
+
+// Detect the timezone for a freshly connected Canvas account (pasted token or OAuth).
+export async function detectCanvasTimeZone(userId: string): Promise<string | null> {
+  const session = await createCanvasSession(userId);
+  return updateDetectedTimeZone(session, null);
+}
+
+// Timezone used to turn Canvas timestamps into calendar dates for this user.
+export async function getCanvasTimeZone(userId: string): Promise<string> {
+  const account = await prisma.canvasAccount.findUnique({
+    where: { userId },
+    select: { timezone: true, timezoneOverride: true },
+  });
+  return resolveCanvasTimeZone(account);
+}
+
+export async function getCanvasTimeZoneState(userId: string): Promise<CanvasTimeZoneState> {
+  const account = await prisma.canvasAccount.findUnique({
+    where: { userId },
+    select: { timezone: true, timezoneOverride: true },
+  });
+  return {
+    timezone: resolveCanvasTimeZone(account),
+    detected: account?.timezone ?? null,
+    override: account?.timezoneOverride ?? null,
+  };
+}
+
+// Pin the timezone used for due dates, or pass null to go back to the one detected
+// from the Canvas profile.
+export async function setCanvasTimeZoneOverride(userId: string, timeZone: string | null): Promise<CanvasTimeZoneState> {
+  const account = await prisma.canvasAccount.findUnique({ where: { userId } });
+  if (!account) {
+    throw new Error('Canvas configuration not found. Please save Canvas base URL and token first.');
+  }
+
+  await prisma.canvasAccount.update({
+    where: { userId },
+    data: { timezoneOverride: timeZone },
+  });
+
+  return getCanvasTimeZoneState(userId);
+}
+
 export async function upsertCanvasConfig({ userId, baseUrl, accessToken }: UpsertCanvasConfigParams) {
   const normalizedBaseUrl = normalizeBaseUrl(baseUrl);
 
+  // A pasted personal access token replaces any OAuth connection.
   const account = await prisma.canvasAccount.upsert({
     where: { userId },
     update: {
       baseUrl: normalizedBaseUrl,
-      accessToken,
+      accessToken: encryptToken(accessToken),
+      refreshToken: null,
+      tokenExpiresAt: null,
+      needsReconnect: false,
     },
     create: {
       userId,
       baseUrl: normalizedBaseUrl,
-      accessToken,
+      accessToken: encryptToken(accessToken),
     },
   });
 
+  await detectCanvasTimeZone(userId);
+
   return { userId, account };
 }
 
@@ -47,51 +167,175 @@ interface CanvasCourse {
   name: string;
 }
 
+interface CanvasSubmission {
+  workflow_state?: string | null; // submitted, unsubmitted, graded, pending_review
+  submitted_at?: string | null;
+  late?: boolean;
+  missing?: boolean;
+  excused?: boolean | null;
+  redo_request?: boolean; // teacher asked the student to resubmit
+}
+
 interface CanvasAssignment {
   id: number;
   name: string;
   description?: string | null;
   due_at?: string | null;
+  submission_types?: string[];
+  submission?: CanvasSubmission | null;
 }
 
-// Canvas often encodes due dates as timestamps in the institution's local timezone.
-// This school is on Pacific Time, so we interpret all Canvas `due_at` values in
-// America/Los_Angeles, then drop the time-of-day and store a date-only value.
-// We materialize that date as **midday UTC** so that viewing the date from any
-// user timezone will not shift it to the previous/next calendar day.
-function normalizeDueDate(dueAt: string | null | undefined): Date | null {
-  if (!dueAt) return null;
-  const instant = new Date(dueAt);
-  if (Number.isNaN(instant.getTime())) return null;
-
-  // Extract the year/month/day in Pacific Time.
-  const dtf = new Intl.DateTimeFormat('en-US', {
-    timeZone: 'America/Los_Angeles',
-    year: 'numeric',
-    month: 'numeric',
-    day: 'numeric',
-  });
+// An entry from GET /api/v1/planner/items.
+interface CanvasPlannerItem {
+  course_id?: number | null;
+  plannable_type: string; // assignment, quiz, discussion_topic, sub_assignment, wiki_page, planner_note, ...
+  plannable_date?: string | null;
+  plannable?: {
+    id?: number;
+    title?: string | null;
+    name?: string | null;
+    details?: string | null;
+    due_at?: string | null;
+    todo_date?: string | null;
+    assignment_id?: number | null; // set for graded quizzes and discussions
+  } | null;
+  submissions?:
+    | {
+        submitted?: boolean;
+        graded?: boolean;
+        late?: boolean;
+        missing?: boolean;
+        excused?: boolean;
+        redo_request?: boolean;
+      }
+    | false;
+}
+
+// One Canvas item normalized for storage, whichever API it came from.
+interface CanvasItemInput {
+  canvasAssignmentId: string;
+  name: string;
+  description?: string | null;
+  dueAt: string | null | undefined;
+  itemType: CanvasItemType;
+  submissionState: SubmissionState | null;
+  submittedAt: Date | null;
+}
 
-  const parts = dtf.formatToParts(instant);
-  const year = Number(parts.find((p) => p.type === 'year')?.value ?? NaN);
-  const month = Number(parts.find((p) => p.type === 'month')?.value ?? NaN) - 1; // 0-based
-  const day = Number(parts.find((p) => p.type === 'day')?.value ?? NaN);
+interface ExistingItem {
+  id: string;
+  canvasAssignmentId: string;
+  dueDate: Date | null;
+  dueAt: Date | null;
+  submissionState: string | null;
+}
 
-  if (!Number.isFinite(year) || !Number.isFinite(month) || !Number.isFinite(day)) {
-    return null;
+function assignmentItemType(assignment: CanvasAssignment): CanvasItemType {
+  const types = assignment.submission_types ?? [];
+  if (types.includes('online_quiz')) return 'quiz';
+  if (types.includes('discussion_topic')) return 'discussion';
+  return 'assignment';
+}
+
+function plannerItemType(plannableType: string): CanvasItemType | null {
+  switch (plannableType) {
+    case 'assignment':
+      return 'assignment';
+    case 'quiz':
+      return 'quiz';
+    case 'discussion_topic':
+    case 'sub_assignment': // discussion checkpoints, e.g. a separate reply-by date
+      return 'discussion';
+    case 'wiki_page':
+      return 'page';
+    case 'planner_note':
+      return 'note';
+    default:
+      return null;
   }
+}
+
+export type SubmissionState = 'submitted' | 'graded' | 'late' | 'missing' | 'unsubmitted' | 'resubmit';
+
+// Whether the student has turned the assignment in (so its Todoist task can be closed).
+export function isSubmittedState(state: string | null | undefined): boolean {
+  return state === 'submitted' || state === 'graded' || state === 'late';
+}
+
+// Collapse Canvas's submission fields into the single state Tasklink tracks.
+function deriveSubmissionState(submission: CanvasSubmission | null | undefined): SubmissionState | null {
+  if (!submission) return null;
+  if (submission.redo_request) return 'resubmit';
+  if (submission.excused || submission.workflow_state === 'graded') return 'graded';
 
-  // Store as midday UTC on that Pacific calendar date. Midday avoids crossing
-  // date boundaries when viewed from other timezones.
-  return new Date(Date.UTC(year, month, day, 12, 0, 0));
+  const turnedIn =
+    !!submission.submitted_at ||
+    submission.workflow_state === 'submitted' ||
+    submission.workflow_state === 'pending_review';
+  if (turnedIn) return submission.late ? 'late' : 'submitted';
+
+  if (submission.missing) return 'missing';
+  return 'unsubmitted';
+}
+
+function derivePlannerSubmissionState(submissions: CanvasPlannerItem['submissions']): SubmissionState | null {
+  if (!submissions) return null;
+  if (submissions.redo_request) return 'resubmit';
+  if (submissions.excused || submissions.graded) return 'graded';
+  if (submissions.submitted) return submissions.late ? 'late' : 'submitted';
+  if (submissions.missing) return 'missing';
+  return 'unsubmitted';
+}
+
+function parseCanvasDate(value: string | null | undefined): Date | null {
+  if (!value) return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+// Canvas encodes due dates as UTC timestamps; the calendar date a student sees
+// depends on their timezone (e.g. 23:59 Pacific is already the next day in UTC).
+// We interpret `due_at` in the Canvas account's timezone, then drop the time-of-day
+// and store a date-only value. We materialize that date as **midday UTC** so that
+// viewing the date from any user timezone will not shift it to the previous/next
+// calendar day.
+function normalizeDueDate(dueAt: string | null | undefined, timeZone: string): Date | null {
+  const instant = parseCanvasDate(dueAt);
+  if (!instant) return null;
+
+  const date = toCalendarDate(instant, timeZone);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+// Every Canvas API request goes through here. OAuth tokens are refreshed shortly
+// before they expire; if Canvas still answers 401 we refresh once and retry.
+async function canvasGet<T>(
+  session: CanvasSession,
+  url: string,
+  params?: Record<string, unknown>,
+): Promise<AxiosResponse<T>> {
+  const request = async (accessToken: string) =>
+    http.get<T>(url, {
+      headers: { Authorization: `Bearer ${accessToken}` },
+      params,
+      stats: session.httpStats,
+    });
+
+  try {
+    return await request(await session.getAccessToken());
+  } catch (err) {
+    const status = (err as { response?: { status?: number } })?.response?.status;
+    if (status !== 401 || !session.canRefresh) throw err;
+    return request(await session.getAccessToken(true));
+  }
 }
 
 // Helper to fetch all pages from a Canvas collection endpoint using simple
 // page-based pagination. Canvas uses 1-based `page` with `per_page`.
 async function fetchAllPages<T>(
+  session: CanvasSession,
   url: string,
   params: Record<string, unknown>,
-  headers: Record<string, string>,
 ): Promise<T[]> {
   const all: T[] = [];
   const perPage = 50;
@@ -102,10 +346,7 @@ async function fetchAllPages<T>(
   // If Canvas ever returns an empty page, we also stop.
   // eslint-disable-next-line no-constant-condition
   while (true) {
-    const res = await axios.get<T[]>(url, {
-      headers,
-      params: { ...params, per_page: perPage, page },
-    });
+    const res = await canvasGet<T[]>(session, url, { ...params, per_page: perPage, page });
     const data = res.data ?? [];
     if (data.length === 0) {
       break;
@@ -120,6 +361,31 @@ async function fetchAllPages<T>(
   return all;
 }
 
+// Canvas APIs that paginate with opaque bookmarks (like the Planner) can only be walked
+// by following the rel="next" URL in the Link header.
+async function fetchAllLinkedPages<T>(
+  session: CanvasSession,
+  url: string,
+  params: Record<string, unknown>,
+): Promise<T[]> {
+  const all: T[] = [];
+  let nextUrl: string | null = url;
+  let nextParams: Record<string, unknown> | undefined = { ...params, per_page: 50 };
+
+  while (nextUrl) {
+    const res: AxiosResponse<T[]> = await canvasGet<T[]>(session, nextUrl, nextParams);
+    all.push(...(res.data ?? []));
+
+    const link = typeof res.headers.link === 'string' ? res.headers.link : '';
+    const next = /<([^>]+)>;\s*rel="next"/.exec(link);
+    nextUrl = next ? next[1] : null;
+    // The next URL already carries every query parameter.
+    nextParams = undefined;
+  }
+
+  return all;
+}
+
 export async function fetchAndStoreUpcomingAssignments(
   userId: string,
   options: FetchAssignmentsOptions = {},
@@ -135,6 +401,12 @@ export async function fetchAndStoreUpcomingAssignments(
     throw new Error('Canvas configuration not found. Please save Canvas base URL and token first.');
   }
 
+  // Saved with the sync settings, so manual fetches and auto-sync import the same kinds of items.
+  const itemTypes = parseItemTypes(user.importItemTypes);
+
+  const session = await createCanvasSession(user.id);
+  const { baseUrl } = session;
+
   // If the user has chosen to ignore no-due-date assignments, proactively remove any existing
   // ones from the database for this user so they disappear from the UI and future syncs.
   if (!includeNoDueDate) {
@@ -148,138 +420,344 @@ export async function fetchAndStoreUpcomingAssignments(
     });
   }
 
-  const { baseUrl, accessToken } = user.canvasAccount;
-  const authHeaders = {
-    Authorization: `Bearer ${accessToken}`,
-  };
+  // Likewise drop items of types the user no longer wants to import.
+  if (itemTypes.length < CANVAS_ITEM_TYPES.length) {
+    await prisma.assignment.deleteMany({
+      where: {
+        itemType: { notIn: itemTypes },
+        course: {
+          userId: user.id,
+        },
+      },
+    });
+  }
 
-  // Fetch all active courses (not just the first page).
-  const activeCourses = await fetchAllPages<CanvasCourse>(
-    `${baseUrl}/api/v1/courses`,
-    { enrollment_state: 'active' },
-    authHeaders,
-  );
+  // Pick up timezone changes on the Canvas profile; an override in settings still wins.
+  const detectedTimeZone = await updateDetectedTimeZone(session, user.canvasAccount.timezone);
+  const timeZone = resolveCanvasTimeZone({
+    timezone: detectedTimeZone ?? user.canvasAccount.timezone,
+    timezoneOverride: user.canvasAccount.timezoneOverride,
+  });
 
-  let courses: CanvasCourse[] = activeCourses;
+  // Record the fetch as its own run so the per-assignment log can explain what was
+  // imported, refreshed or skipped.
+  const syncRun = await prisma.syncRun.create({
+    data: {
+      userId: user.id,
+      kind: 'CANVAS_FETCH',
+      status: 'RUNNING',
+      message: 'Fetching assignments from Canvas.',
+    },
+  });
+  const syncLog = createSyncLog(syncRun.id);
 
-  // Best-effort: try to also include invited/pending courses so newly added ones
-  // show up even before the term fully starts. If Canvas does not support this
-  // on a given instance, ignore the error instead of failing the whole run.
   try {
-    const pendingCourses = await fetchAllPages<CanvasCourse>(
+    // Fetch all active courses (not just the first page).
+    const activeCourses = await fetchAllPages<CanvasCourse>(
+      session,
       `${baseUrl}/api/v1/courses`,
-      { enrollment_state: 'invited_or_pending' },
-      authHeaders,
+      { enrollment_state: 'active' },
     );
-    const seen = new Set(courses.map((c) => c.id));
-    for (const c of pendingCourses) {
-      if (!seen.has(c.id)) {
-        courses.push(c);
-        seen.add(c.id);
-      }
-    }
-  } catch (err) {
-    // eslint-disable-next-line no-console
-    console.warn('Canvas invited_or_pending courses request failed; continuing with active courses only.', err);
-  }
-
-  let coursesProcessed = 0;
-  let assignmentsUpserted = 0;
-
-  // We want all future assignments (subject to optional look-ahead), not just Canvas's short
-  // "upcoming" window. Compute "today" at local midnight so we can skip already-past-due work
-  // and optionally cap how far ahead we look.
-  const now = new Date();
-  const todayMidnight = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-  const maxDaysAhead = typeof daysAhead === 'number' && daysAhead > 0 ? daysAhead : null;
-
-  for (const course of courses) {
-    if (!course.id || !course.name) continue;
-
-    const courseRecord = await prisma.course.upsert({
-      where: {
-        userId_canvasCourseId: {
-          userId: user.id,
-          canvasCourseId: String(course.id),
-        },
-      },
-      update: {
-        name: course.name,
-      },
-      create: {
-        userId: user.id,
-        canvasCourseId: String(course.id),
-        name: course.name,
-      },
-    });
 
-    coursesProcessed += 1;
+    let courses: CanvasCourse[] = activeCourses;
 
+    // Best-effort: try to also include invited/pending courses so newly added ones
+    // show up even before the term fully starts. If Canvas does not support this
+    // on a given instance, ignore the error instead of failing the whole run.
     try {
-      // Fetch all assignments for the course across all pages so that we don't
-      // silently drop anything beyond the first 50.
-      const assignments = await fetchAllPages<CanvasAssignment>(
-        `${baseUrl}/api/v1/courses/${course.id}/assignments`,
-        {
-          // No bucket filter: fetch all assignments for the course.
-        },
-        authHeaders,
+      const pendingCourses = await fetchAllPages<CanvasCourse>(
+        session,
+        `${baseUrl}/api/v1/courses`,
+        { enrollment_state: 'invited_or_pending' },
       );
+      const seen = new Set(courses.map((c) => c.id));
+      for (const c of pendingCourses) {
+        if (!seen.has(c.id)) {
+          courses.push(c);
+          seen.add(c.id);
+        }
+      }
+    } catch (err) {
+      // eslint-disable-next-line no-console
+      console.warn('Canvas invited_or_pending courses request failed; continuing with active courses only.', err);
+    }
 
-      for (const assignment of assignments) {
-      if (!assignment.id || !assignment.name) continue;
-
-      const dueDate = normalizeDueDate(assignment.due_at);
+    let coursesProcessed = 0;
+    let assignmentsUpserted = 0;
+
+    // We want all future assignments (subject to optional look-ahead), not just Canvas's short
+    // "upcoming" window. Compute "today" in the Canvas timezone (same midday-UTC form as due
+    // dates) so we can skip already-past-due work and optionally cap how far ahead we look.
+    const today = toCalendarDate(new Date(), timeZone);
+    const maxDaysAhead = typeof daysAhead === 'number' && daysAhead > 0 ? daysAhead : null;
+
+    // What we already have per course, so the log can show before/after due dates.
+    const existingByCourse = new Map<string, Map<string, ExistingItem>>();
+    const loadExisting = async (courseId: string) => {
+      let existing = existingByCourse.get(courseId);
+      if (!existing) {
+        const rows = await prisma.assignment.findMany({
+          where: { courseId },
+          select: { id: true, canvasAssignmentId: true, dueDate: true, dueAt: true, submissionState: true },
+        });
+        existing = new Map(rows.map((a) => [a.canvasAssignmentId, a]));
+        existingByCourse.set(courseId, existing);
+      }
+      return existing;
+    };
+
+    // Apply the detection settings to one Canvas item and store it on the course.
+    const storeItem = async (courseId: string, courseName: string, item: CanvasItemInput) => {
+      const existing = (await loadExisting(courseId)).get(item.canvasAssignmentId);
+      const dueAt = parseCanvasDate(item.dueAt);
+      const dueDate = normalizeDueDate(item.dueAt, timeZone);
+      const logBase = {
+        assignmentId: existing?.id ?? null,
+        canvasAssignmentId: item.canvasAssignmentId,
+        assignmentName: item.name,
+        courseName,
+        dueDateBefore: existing?.dueDate ?? null,
+        dueDateAfter: dueDate,
+      };
+
+      if (!itemTypes.includes(item.itemType)) {
+        syncLog.add({
+          ...logBase,
+          action: 'SKIPPED',
+          reason: `Item type "${item.itemType}" is excluded by detection settings`,
+        });
+        return;
+      }
 
       // Optionally skip assignments with no due date at all.
       if (!dueDate && !includeNoDueDate) {
-        continue;
+        syncLog.add({ ...logBase, action: 'SKIPPED', reason: 'No due date (excluded by detection settings)' });
+        return;
       }
 
       // Skip assignments that are clearly in the past; we only care about today and future.
-      if (dueDate && dueDate < todayMidnight) {
-        continue;
+      if (dueDate && dueDate < today) {
+        syncLog.add({ ...logBase, action: 'SKIPPED', reason: 'Past due' });
+        return;
       }
 
       // If a look-ahead window is configured, skip assignments beyond that window.
       if (dueDate && maxDaysAhead !== null) {
-        const diffMs = dueDate.getTime() - todayMidnight.getTime();
-        const diffDays = Math.round(diffMs / (1000 * 60 * 60 * 24));
+        const diffMs = dueDate.getTime() - today.getTime();
+        const diffDays = Math.round(diffMs / MS_PER_DAY);
         if (diffDays > maxDaysAhead) {
-          continue;
+          syncLog.add({
+            ...logBase,
+            action: 'SKIPPED',
+            reason: `Due beyond the ${maxDaysAhead}-day look-ahead window`,
+          });
+          return;
         }
       }
 
-      await prisma.assignment.upsert({
+      const data = {
+        name: item.name,
+        description: item.description ?? null,
+        itemType: item.itemType,
+        dueDate,
+        dueAt,
+        submissionState: item.submissionState,
+        submittedAt: item.submittedAt,
+      };
+
+      const saved = await prisma.assignment.upsert({
         where: {
           courseId_canvasAssignmentId: {
-            courseId: courseRecord.id,
-            canvasAssignmentId: String(assignment.id),
+            courseId,
+            canvasAssignmentId: item.canvasAssignmentId,
+          },
+        },
+        update: data,
+        create: {
+          courseId,
+          canvasAssignmentId: item.canvasAssignmentId,
+          ...data,
+        },
+      });
+
+      const dueDateChanged = (existing?.dueDate?.getTime() ?? null) !== (dueDate?.getTime() ?? null);
+      const dueTimeChanged = !dueDateChanged && (existing?.dueAt?.getTime() ?? null) !== (dueAt?.getTime() ?? null);
+      const submissionChanged = !!existing && existing.submissionState !== item.submissionState;
+      const changes = [
+        dueDateChanged ? 'Due date changed' : null,
+        dueTimeChanged ? 'Due time changed' : null,
+        submissionChanged ? `Submission status is now ${item.submissionState ?? 'unknown'}` : null,
+      ].filter(Boolean);
+      syncLog.add({
+        ...logBase,
+        assignmentId: saved.id,
+        action: existing ? 'UPDATED' : 'CREATED',
+        reason: !existing
+          ? `New ${item.itemType} from Canvas`
+          : changes.length > 0
+          ? changes.join('; ')
+          : 'No changes',
+      });
+
+      assignmentsUpserted += 1;
+    };
+
+    // Canvas course id -> Tasklink course, for attaching planner items.
+    const courseRecordsByCanvasId = new Map<string, { id: string; name: string }>();
+    // Courses (and the planner) that couldn't be loaded; any of these makes the run PARTIAL.
+    let fetchFailures = 0;
+
+    for (const course of courses) {
+      if (!course.id || !course.name) continue;
+
+      const courseRecord = await prisma.course.upsert({
+        where: {
+          userId_canvasCourseId: {
+            userId: user.id,
+            canvasCourseId: String(course.id),
           },
         },
         update: {
-          name: assignment.name,
-          description: assignment.description ?? null,
-          dueDate,
+          name: course.name,
         },
         create: {
-          courseId: courseRecord.id,
-          canvasAssignmentId: String(assignment.id),
-          name: assignment.name,
-          description: assignment.description ?? null,
-          dueDate,
+          userId: user.id,
+          canvasCourseId: String(course.id),
+          name: course.name,
         },
       });
 
-      assignmentsUpserted += 1;
+      courseRecordsByCanvasId.set(String(course.id), courseRecord);
+      coursesProcessed += 1;
+
+      try {
+        // Fetch all assignments for the course across all pages so that we don't
+        // silently drop anything beyond the first 50.
+        const assignments = await fetchAllPages<CanvasAssignment>(
+          session,
+          `${baseUrl}/api/v1/courses/${course.id}/assignments`,
+          {
+            // No bucket filter: fetch all assignments for the course, with the
+            // student's own submission so we know what has been turned in.
+            'include[]': 'submission',
+          },
+        );
+
+        for (const assignment of assignments) {
+          if (!assignment.id || !assignment.name) continue;
+
+          await storeItem(courseRecord.id, course.name, {
+            canvasAssignmentId: String(assignment.id),
+            name: assignment.name,
+            description: assignment.description,
+            dueAt: assignment.due_at,
+            itemType: assignmentItemType(assignment),
+            submissionState: deriveSubmissionState(assignment.submission),
+            submittedAt: parseCanvasDate(assignment.submission?.submitted_at),
+          });
+        }
+      } catch (err) {
+        // If fetching assignments for a single course fails, log and continue so that
+        // other courses can still be processed.
+        // eslint-disable-next-line no-console
+        console.error(`Failed to fetch assignments for Canvas course ${course.id}`, err);
+        fetchFailures += 1;
+        syncLog.add({
+          courseName: course.name,
+          action: 'FAILED',
+          reason: `Could not load assignments for this course: ${err instanceof Error ? err.message : 'unknown error'}`,
+        });
+      }
+    }
+
+    // Ungraded quizzes, discussions, pages with to-do dates and planner notes only show
+    // up in the student's planner. Graded quizzes and discussions were already imported
+    // above as assignments.
+    const plannerTypes = itemTypes.filter((t) => t !== 'assignment');
+    if (plannerTypes.length > 0) {
+      try {
+        const plannerItems = await fetchAllLinkedPages<CanvasPlannerItem>(
+          session,
+          `${baseUrl}/api/v1/planner/items`,
+          {
+            start_date: today.toISOString().slice(0, 10),
+            ...(maxDaysAhead !== null
+              ? { end_date: new Date(today.getTime() + maxDaysAhead * MS_PER_DAY).toISOString().slice(0, 10) }
+              : {}),
+          },
+        );
+
+        for (const plannerItem of plannerItems) {
+          const itemType = plannerItemType(plannerItem.plannable_type);
+          const plannable = plannerItem.plannable;
+          if (!itemType || itemType === 'assignment' || !plannable?.id) continue;
+          if (plannable.assignment_id && plannerItem.plannable_type !== 'sub_assignment') continue;
+
+          const name = plannable.title ?? plannable.name ?? 'Untitled';
+          const courseRecord =
+            plannerItem.course_id != null ? courseRecordsByCanvasId.get(String(plannerItem.course_id)) : undefined;
+          if (!courseRecord) {
+            syncLog.add({
+              canvasAssignmentId: `${plannerItem.plannable_type}:${plannable.id}`,
+              assignmentName: name,
+              action: 'SKIPPED',
+              reason: 'Planner item is not linked to one of your courses',
+            });
+            continue;
+          }
+
+          await storeItem(courseRecord.id, courseRecord.name, {
+            // Planner ids are only unique per type, so keep them apart from assignment ids.
+            canvasAssignmentId: `${plannerItem.plannable_type}:${plannable.id}`,
+            name,
+            description: plannable.details ?? null,
+            dueAt: plannable.due_at ?? plannable.todo_date ?? plannerItem.plannable_date,
+            itemType,
+            submissionState: derivePlannerSubmissionState(plannerItem.submissions),
+            submittedAt: null,
+          });
+        }
+      } catch (err) {
+        // eslint-disable-next-line no-console
+        console.error('Failed to fetch Canvas planner items', err);
+        fetchFailures += 1;
+        syncLog.add({
+          action: 'FAILED',
+          reason: `Could not load planner items: ${err instanceof Error ? err.message : 'unknown error'}`,
+        });
+      }
     }
+
+    await syncLog.flush();
+    await prisma.syncRun.update({
+      where: { id: syncRun.id },
+      data: {
+        finishedAt: new Date(),
+        status: fetchFailures > 0 ? 'PARTIAL' : 'SUCCESS',
+        message:
+          `Processed ${coursesProcessed} course(s), upserted ${assignmentsUpserted} assignment(s)` +
+          (fetchFailures > 0 ? `; ${fetchFailures} fetch(es) failed, see the log.` : '.'),
+        retryCount: session.httpStats.retries,
+      },
+    });
+
+    return {
+      syncRunId: syncRun.id,
+      coursesProcessed,
+      assignmentsUpserted,
+      courseIds: Array.from(courseRecordsByCanvasId.values(), (c) => c.id),
+    };
   } catch (err) {
-    // If fetching assignments for a single course fails, log and continue so that
-    // other courses can still be processed.
-    // eslint-disable-next-line no-console
-    console.error(`Failed to fetch assignments for Canvas course ${course.id}`, err);
+    await syncLog.flush();
+    await prisma.syncRun.update({
+      where: { id: syncRun.id },
+      data: {
+        finishedAt: new Date(),
+        status: 'ERROR',
+        message: err instanceof Error ? err.message : 'Unknown Canvas fetch error',
+        retryCount: session.httpStats.retries,
+      },
+    });
+    throw err;
   }
 }
-
-return { coursesProcessed, assignmentsUpserted };
-}
@@ -0,0 +1,187 @@
+import axios from 'axios';
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { prisma } from '../prisma';
+
+const GOOGLE_AUTHORIZE_URL = 'https://accounts.google.com/o/oauth2/v2/auth';
+const GOOGLE_TOKEN_URL = 'https://oauth2.googleapis.com/token';
+const GOOGLE_JWKS_URL = 'https://www.googleapis.com/oauth2/v3/certs';
+const GOOGLE_ISSUERS: [string, string] = ['https://accounts.google.com', 'accounts.google.com'];
+
+// Google rotates its signing keys every few days; re-fetch them at least hourly and
+// whenever an ID token names a key we haven't seen.
+const JWKS_CACHE_MS = 60 * 60 * 1000;
+
+interface GoogleTokenResponse {
+  access_token: string;
+  id_token?: string;
+}
+
+// Claims from the Google ID token that Tasklink uses.
+export interface GoogleIdentity {
+  sub: string;
+  email: string | null;
+  emailVerified: boolean;
+  name: string | null;
+}
+
+type GoogleJwk = crypto.JsonWebKey & { kid?: string };
+
+let cachedKeys: { keys: GoogleJwk[]; fetchedAt: number } | null = null;
+
+export function isGoogleAuthConfigured(): boolean {
+  return !!(process.env.GOOGLE_CLIENT_ID && process.env.GOOGLE_CLIENT_SECRET);
+}
+
+export function createOidcNonce(): string {
+  return crypto.randomBytes(24).toString('base64url');
+}
+
+export function buildGoogleAuthorizeUrl(redirectUri: string, state: string, nonce: string): string {
+  const params = new URLSearchParams({
+    client_id: process.env.GOOGLE_CLIENT_ID ?? '',
+    response_type: 'code',
+    scope: 'openid email profile',
+    redirect_uri: redirectUri,
+    state,
+    nonce,
+    prompt: 'select_account',
+  });
+  return `${GOOGLE_AUTHORIZE_URL}?${params.toString()}`;
+}
+
+async function getGoogleSigningKey(kid: string): Promise<crypto.KeyObject> {
+  const isFresh = cachedKeys && Date.now() - cachedKeys.fetchedAt < JWKS_CACHE_MS;
+  let jwk = isFresh ? cachedKeys?.keys.find((key) => key.kid === kid) : undefined;
+
+  if (!jwk) {
+    const res = await axios.get<{ keys: GoogleJwk[] }>(GOOGLE_JWKS_URL);
+    cachedKeys = { keys: res.data.keys ?? [], fetchedAt: Date.now() };
+    jwk = cachedKeys.keys.find((key) => key.kid === kid);
+  }
+  if (!jwk) {
+    throw new Error('Google ID token was signed with an unknown key');
+  }
+
+  return crypto.createPublicKey({ key: jwk, format: 'jwk' });
+}
+
+// Check the ID token's signature, issuer, audience, expiry and nonce, and return its claims.
+async function verifyGoogleIdToken(idToken: string, nonce: string): Promise<GoogleIdentity> {
+  const decoded = jwt.decode(idToken, { complete: true });
+  const kid = decoded?.header.kid;
+  if (!kid) {
+    throw new Error('Google ID token is malformed');
+  }
+
+  const key = await getGoogleSigningKey(kid);
+  const claims = jwt.verify(idToken, key, {
+    algorithms: ['RS256'],
+    audience: process.env.GOOGLE_CLIENT_ID,
+    issuer: GOOGLE_ISSUERS,
+  }) as jwt.JwtPayload & { nonce?: string; email?: string; email_verified?: boolean | string; name?: string };
+
+  const expected = Buffer.from(nonce);
+  const provided = Buffer.from(String(claims.nonce ?? ''));
+  if (expected.length !== provided.length || !crypto.timingSafeEqual(expected, provided)) {
+    throw new Error('Google ID token nonce does not match');
+  }
+  if (!claims.sub) {
+    throw new Error('Google ID token has no subject');
+  }
+
+  return {
+    sub: claims.sub,
+    email: claims.email ? claims.email.toLowerCase() : null,
+    emailVerified: claims.email_verified === true || claims.email_verified === 'true',
+    name: claims.name ?? null,
+  };
+}
+
+async function exchangeGoogleCode(code: string, redirectUri: string, nonce: string): Promise<GoogleIdentity> {
+  const res = await axios.post<GoogleTokenResponse>(
+    GOOGLE_TOKEN_URL,
+    new URLSearchParams({
+      client_id: process.env.GOOGLE_CLIENT_ID ?? '',
+      client_secret: process.env.GOOGLE_CLIENT_SECRET ?? '',
+      grant_type: 'authorization_code',
+      redirect_uri: redirectUri,
+      code,
+    }).toString(),
+    { headers: { 'Content-Type': 'application/x-www-form-urlencoded' } },
+  );
+
+  if (!res.data.id_token) {
+    throw new Error('Google did not return an ID token');
+  }
+  return verifyGoogleIdToken(res.data.id_token, nonce);
+}
+
+// Find (or create) the Tasklink user for a Google identity:
+// 1. a user already linked to this Google account;
+// 2. otherwise a user with the same email, which is linked only if Google has verified
+//    the address (so nobody can take over an account by claiming its email). If Tasklink
+//    never verified that email, whoever registered it may not own it: their password,
+//    sessions and Canvas and Todoist connections are removed before the account is handed
+//    to the Google user;
+// 3. otherwise a new passwordless user.
+async function findOrCreateGoogleUser(identity: GoogleIdentity) {
+  const linked = await prisma.user.findUnique({ where: { googleSub: identity.sub } });
+  if (linked) return linked;
+
+  if (!identity.emailVerified) {
+    throw new Error('Your Google account email is not verified. Verify it with Google and try again.');
+  }
+
+  if (identity.email) {
+    const existing = await prisma.user.findUnique({ where: { email: identity.email } });
+    if (existing) {
+      if (existing.googleSub) {
+        throw new Error('This email is already linked to a different Google account.');
+      }
+      const link = {
+        googleSub: identity.sub,
+        displayName: existing.displayName ?? identity.name,
+      };
+      if (existing.emailVerifiedAt) {
+        return prisma.user.update({ where: { id: existing.id }, data: link });
+      }
+
+      // All or nothing, so the account is never handed over with someone else's
+      // credentials still attached.
+      return prisma.$transaction(async (tx) => {
+        await tx.canvasAccount.deleteMany({ where: { userId: existing.id } });
+        await tx.todoistAccount.deleteMany({ where: { userId: existing.id } });
+        await tx.session.updateMany({
+          where: { userId: existing.id, revokedAt: null },
+          data: { revokedAt: new Date() },
+        });
+        return tx.user.update({
+          where: { id: existing.id },
+          data: {
+            ...link,
+            emailVerifiedAt: new Date(),
+            passwordHash: null,
+            // Webhooks from the previous owner's Todoist account must no longer match.
+            todoistUserId: null,
+          },
+        });
+      });
+    }
+  }
+
+  return prisma.user.create({
+    data: {
+      email: identity.email,
+      emailVerifiedAt: identity.email ? new Date() : null,
+      googleSub: identity.sub,
+      displayName: identity.name,
+    },
+  });
+}
+
+// Complete a "Continue with Google" sign-in from /auth/google/callback.
+export async function completeGoogleLogin(code: string, redirectUri: string, nonce: string) {
+  const identity = await exchangeGoogleCode(code, redirectUri, nonce);
+  return findOrCreateGoogleUser(identity);
+}
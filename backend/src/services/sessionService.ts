@@ -0,0 +1,96 @@
+import { prisma } from '../prisma';
+
+// Don't write lastSeenAt on every request; once every few minutes is plenty to show
+// when a device was last used.
+const LAST_SEEN_RESOLUTION_MS = 5 * 60 * 1000;
+
+export interface CreateSessionParams {
+  userId: string;
+  expiresAt: Date;
+  userAgent?: string | null;
+  ipAddress?: string | null;
+}
+
+export interface SessionSummary {
+  id: string;
+  createdAt: Date;
+  lastSeenAt: Date;
+  expiresAt: Date;
+  userAgent: string | null;
+  ipAddress: string | null;
+  current: boolean;
+}
+
+export async function createSession({ userId, expiresAt, userAgent, ipAddress }: CreateSessionParams) {
+  // Drop this user's sessions that can no longer be used, so the table doesn't grow forever.
+  await prisma.session.deleteMany({
+    where: {
+      userId,
+      OR: [{ expiresAt: { lt: new Date() } }, { revokedAt: { not: null } }],
+    },
+  });
+
+  return prisma.session.create({
+    data: {
+      userId,
+      expiresAt,
+      userAgent: userAgent ? userAgent.slice(0, 512) : null,
+      ipAddress: ipAddress ?? null,
+    },
+  });
+}
+
+// Look up a session from a session cookie. Returns null if it was revoked, has expired,
+// or belongs to a different user than the cookie claims.
+export async function findActiveSession(sessionId: string, userId: string) {
+  const session = await prisma.session.findUnique({ where: { id: sessionId } });
+  const now = new Date();
+  if (!session || session.userId !== userId || session.revokedAt || session.expiresAt <= now) {
+    return null;
+  }
+
+  if (now.getTime() - session.lastSeenAt.getTime() > LAST_SEEN_RESOLUTION_MS) {
+    await prisma.session.update({ where: { id: sessionId }, data: { lastSeenAt: now } });
+  }
+
+  return session;
+}
+
+export async function listSessions(userId: string, currentSessionId: string | null): Promise<SessionSummary[]> {
+  const sessions = await prisma.session.findMany({
+    where: { userId, revokedAt: null, expiresAt: { gt: new Date() } },
+    orderBy: { lastSeenAt: 'desc' },
+  });
+
+  return sessions.map((session) => ({
+    id: session.id,
+    createdAt: session.createdAt,
+    lastSeenAt: session.lastSeenAt,
+    expiresAt: session.expiresAt,
+    userAgent: session.userAgent,
+    ipAddress: session.ipAddress,
+    current: session.id === currentSessionId,
+  }));
+}
+
+// Revoke one of the user's sessions. Returns false if it doesn't exist or isn't theirs.
+export async function revokeSession(userId: string, sessionId: string): Promise<boolean> {
+  const result = await prisma.session.updateMany({
+    where: { id: sessionId, userId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+  return result.count > 0;
+}
+
+// "Sign out all other devices": revoke every session of the user except the given one.
+export async function revokeOtherSessions(userId: string, keepSessionId: string | null): Promise<number> {
+  const result = await prisma.session.updateMany({
+    where: {
+      userId,
+      revokedAt: null,
+      ...(keepSessionId ? { id: { not: keepSessionId } } : {}),
+    },
+    data: { revokedAt: new Date() },
+  });
+  return result.count;
+}
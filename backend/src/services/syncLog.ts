@@ -0,0 +1,48 @@
+import { prisma } from '../prisma';
+
+export type SyncItemAction = 'CREATED' | 'UPDATED' | 'LINKED' | 'CLOSED' | 'REOPENED' | 'SKIPPED' | 'FAILED';
+
+export interface SyncRunItemInput {
+  assignmentId?: string | null;
+  canvasAssignmentId?: string | null;
+  assignmentName?: string | null;
+  courseName?: string | null;
+  action: SyncItemAction;
+  reason?: string | null;
+  conflict?: string | null;
+  todoistTaskId?: string | null;
+  dueDateBefore?: Date | null;
+  dueDateAfter?: Date | null;
+  priorityBefore?: number | null;
+  priorityAfter?: number | null;
+}
+
+export interface SyncLog {
+  add(item: SyncRunItemInput): void;
+  flush(): Promise<void>;
+}
+
+// Collects per-assignment entries for a sync run in memory and writes them in one
+// batch when the run finishes (successfully or not). Failing to write the log never
+// fails the sync itself.
+export function createSyncLog(syncRunId: string): SyncLog {
+  const pending: SyncRunItemInput[] = [];
+
+  return {
+    add(item) {
+      pending.push(item);
+    },
+    async flush() {
+      if (pending.length === 0) return;
+      const items = pending.splice(0, pending.length);
+      try {
+        await prisma.syncRunItem.createMany({
+          data: items.map((item) => ({ ...item, syncRunId })),
+        });
+      } catch (err) {
+        // eslint-disable-next-line no-console
+        console.error(`Failed to write sync log for run ${syncRunId}`, err);
+      }
+    },
+  };
+}
@@ -0,0 +1,172 @@
+import { prisma } from '../prisma';
+import { isCanvasItemType, parseItemTypes, type CanvasItemType } from './canvasService';
+
+// What to do when a synced task's field was edited in Todoist since Tasklink last
+// pushed it: overwrite it with Canvas, keep the Todoist value, or only accept
+// whichever is earlier (for priority: whichever is more urgent).
+export type ConflictPolicy = 'CANVAS_WINS' | 'TODOIST_WINS' | 'ONLY_EARLIER';
+
+export const CONFLICT_POLICIES: ConflictPolicy[] = ['CANVAS_WINS', 'TODOIST_WINS', 'ONLY_EARLIER'];
+
+export function isConflictPolicy(value: unknown): value is ConflictPolicy {
+  return typeof value === 'string' && (CONFLICT_POLICIES as string[]).includes(value);
+}
+
+// Color names accepted by the Todoist API for projects.
+export const TODOIST_COLORS = [
+  'berry_red',
+  'red',
+  'orange',
+  'yellow',
+  'olive_green',
+  'lime_green',
+  'green',
+  'mint_green',
+  'teal',
+  'sky_blue',
+  'light_blue',
+  'blue',
+  'grape',
+  'violet',
+  'lavender',
+  'magenta',
+  'salmon',
+  'charcoal',
+  'grey',
+  'taupe',
+] as const;
+
+export type TodoistColor = (typeof TODOIST_COLORS)[number];
+
+export function isTodoistColor(value: unknown): value is TodoistColor {
+  return typeof value === 'string' && (TODOIST_COLORS as readonly string[]).includes(value);
+}
+
+// Placeholder in projectNameTemplate replaced by the Canvas course name.
+export const COURSE_NAME_PLACEHOLDER = '{course}';
+
+// Per-user sync preferences stored in the database, so background auto-sync runs
+// behave the same way as manual syncs from the dashboard.
+export interface SyncSettings {
+  closeSubmittedTasks: boolean;
+  reopenResubmitTasks: boolean;
+  dueDateConflictPolicy: ConflictPolicy;
+  priorityConflictPolicy: ConflictPolicy;
+  // Send Canvas due times (due_datetime) instead of date-only due dates. Courses can override this.
+  useDueTime: boolean;
+  // Kinds of Canvas items to import, for manual fetches and auto-sync alike.
+  itemTypes: CanvasItemType[];
+  // Todoist label added to tasks for each kind of Canvas item; types without one get no label.
+  itemTypeLabels: ItemTypeLabels;
+  // Create (or reuse) a Todoist project for every course without one, named from
+  // projectNameTemplate, optionally colored and nested under projectParentName.
+  autoProvisionProjects: boolean;
+  projectNameTemplate: string;
+  projectColor: TodoistColor | null;
+  projectParentName: string | null;
+}
+
+export type ItemTypeLabels = Partial<Record<CanvasItemType, string>>;
+
+export type SyncSettingsInput = Partial<SyncSettings>;
+
+const DEFAULT_SYNC_SETTINGS: SyncSettings = {
+  closeSubmittedTasks: true,
+  reopenResubmitTasks: false,
+  dueDateConflictPolicy: 'CANVAS_WINS',
+  priorityConflictPolicy: 'CANVAS_WINS',
+  useDueTime: false,
+  itemTypes: parseItemTypes(null),
+  itemTypeLabels: {},
+  autoProvisionProjects: false,
+  projectNameTemplate: COURSE_NAME_PLACEHOLDER,
+  projectColor: null,
+  projectParentName: null,
+};
+
+// A template without the course name would give every course the same project.
+function parseProjectNameTemplate(value: unknown): string {
+  const template = typeof value === 'string' ? value.trim() : '';
+  return template.includes(COURSE_NAME_PLACEHOLDER) ? template : DEFAULT_SYNC_SETTINGS.projectNameTemplate;
+}
+
+// Keep only known item types with a non-empty label name.
+function parseItemTypeLabels(value: unknown): ItemTypeLabels {
+  const labels: ItemTypeLabels = {};
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return labels;
+
+  for (const [type, label] of Object.entries(value as Record<string, unknown>)) {
+    if (isCanvasItemType(type) && typeof label === 'string' && label.trim()) {
+      labels[type] = label.trim();
+    }
+  }
+  return labels;
+}
+
+export async function getSyncSettings(userId: string): Promise<SyncSettings> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: {
+      closeSubmittedTasks: true,
+      reopenResubmitTasks: true,
+      dueDateConflictPolicy: true,
+      priorityConflictPolicy: true,
+      useDueTime: true,
+      importItemTypes: true,
+      itemTypeLabels: true,
+      autoProvisionProjects: true,
+      projectNameTemplate: true,
+      projectColor: true,
+      projectParentName: true,
+    },
+  });
+
+  if (!user) return { ...DEFAULT_SYNC_SETTINGS };
+
+  return {
+    closeSubmittedTasks: user.closeSubmittedTasks,
+    reopenResubmitTasks: user.reopenResubmitTasks,
+    dueDateConflictPolicy: isConflictPolicy(user.dueDateConflictPolicy)
+      ? user.dueDateConflictPolicy
+      : DEFAULT_SYNC_SETTINGS.dueDateConflictPolicy,
+    priorityConflictPolicy: isConflictPolicy(user.priorityConflictPolicy)
+      ? user.priorityConflictPolicy
+      : DEFAULT_SYNC_SETTINGS.priorityConflictPolicy,
+    useDueTime: user.useDueTime,
+    itemTypes: parseItemTypes(user.importItemTypes),
+    itemTypeLabels: parseItemTypeLabels(user.itemTypeLabels),
+    autoProvisionProjects: user.autoProvisionProjects,
+    projectNameTemplate: parseProjectNameTemplate(user.projectNameTemplate),
+    projectColor: isTodoistColor(user.projectColor) ? user.projectColor : null,
+    projectParentName: user.projectParentName?.trim() || null,
+  };
+}
+
+export async function updateSyncSettings(userId: string, input: SyncSettingsInput): Promise<SyncSettings> {
+  // Every setting but itemTypes is stored in a User column of the same name.
+  const data: Omit<SyncSettingsInput, 'itemTypes'> = {};
+  if (typeof input.closeSubmittedTasks === 'boolean') data.closeSubmittedTasks = input.closeSubmittedTasks;
+  if (typeof input.reopenResubmitTasks === 'boolean') data.reopenResubmitTasks = input.reopenResubmitTasks;
+  if (isConflictPolicy(input.dueDateConflictPolicy)) data.dueDateConflictPolicy = input.dueDateConflictPolicy;
+  if (isConflictPolicy(input.priorityConflictPolicy)) data.priorityConflictPolicy = input.priorityConflictPolicy;
+  if (typeof input.useDueTime === 'boolean') data.useDueTime = input.useDueTime;
+  if (input.itemTypeLabels !== undefined) data.itemTypeLabels = parseItemTypeLabels(input.itemTypeLabels);
+  if (typeof input.autoProvisionProjects === 'boolean') data.autoProvisionProjects = input.autoProvisionProjects;
+  if (input.projectNameTemplate !== undefined) {
+    data.projectNameTemplate = parseProjectNameTemplate(input.projectNameTemplate);
+  }
+  if (input.projectColor !== undefined) {
+    data.projectColor = isTodoistColor(input.projectColor) ? input.projectColor : null;
+  }
+  if (input.projectParentName !== undefined) data.projectParentName = input.projectParentName?.trim() || null;
+
+  await prisma.user.update({
+    where: { id: userId },
+    data: {
+      ...data,
+      ...(input.itemTypes !== undefined ? { importItemTypes: parseItemTypes(input.itemTypes) } : {}),
+    },
+  });
+
+  return getSyncSettings(userId);
+}
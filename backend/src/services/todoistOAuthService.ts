@@ -0,0 +1,118 @@
+import { http } from '../httpClient';
+import { prisma } from '../prisma';
+import { decryptToken, encryptToken } from '../tokenCrypto';
+
+const TODOIST_OAUTH_BASE = 'https://todoist.com/oauth';
+const TODOIST_API_BASE = 'https://api.todoist.com/api/v1';
+
+// Tasklink creates, updates and closes tasks, so it needs read/write access to
+// tasks and projects (but not deletion of projects or account data).
+export const TODOIST_OAUTH_SCOPE = 'data:read_write';
+
+interface TodoistTokenResponse {
+  access_token: string;
+  token_type?: string;
+}
+
+interface TodoistUser {
+  id: string | number;
+  email?: string;
+}
+
+export function isTodoistOAuthConfigured(): boolean {
+  return !!(process.env.TODOIST_CLIENT_ID && process.env.TODOIST_CLIENT_SECRET);
+}
+
+export function buildTodoistAuthorizeUrl(state: string): string {
+  const params = new URLSearchParams({
+    client_id: process.env.TODOIST_CLIENT_ID ?? '',
+    scope: TODOIST_OAUTH_SCOPE,
+    state,
+  });
+  return `${TODOIST_OAUTH_BASE}/authorize?${params.toString()}`;
+}
+
+async function fetchTodoistUserId(accessToken: string): Promise<string> {
+  const res = await http.get<TodoistUser>(`${TODOIST_API_BASE}/user`, {
+    headers: { Authorization: `Bearer ${accessToken}` },
+  });
+  return String(res.data.id);
+}
+
+// Record which Todoist user a token belongs to. A Todoist account can only be linked
+// to one Tasklink user, otherwise webhooks and syncs could touch someone else's data.
+export async function linkTodoistUser(userId: string, accessToken: string): Promise<string> {
+  const todoistUserId = await fetchTodoistUserId(accessToken);
+
+  const owner = await prisma.user.findUnique({ where: { todoistUserId } });
+  if (owner && owner.id !== userId) {
+    throw new Error('This Todoist account is already linked to another Tasklink account.');
+  }
+
+  await prisma.user.update({
+    where: { id: userId },
+    data: { todoistUserId },
+  });
+
+  return todoistUserId;
+}
+
+// Exchange the authorization code from /auth/todoist/callback and store the token.
+export async function completeTodoistOAuth(userId: string, code: string) {
+  const res = await http.post<TodoistTokenResponse>(
+    `${TODOIST_OAUTH_BASE}/access_token`,
+    new URLSearchParams({
+      client_id: process.env.TODOIST_CLIENT_ID ?? '',
+      client_secret: process.env.TODOIST_CLIENT_SECRET ?? '',
+      code,
+    }).toString(),
+    { headers: { 'Content-Type': 'application/x-www-form-urlencoded' } },
+  );
+  const accessToken = res.data.access_token;
+
+  try {
+    await linkTodoistUser(userId, accessToken);
+  } catch (err) {
+    // Don't leave a working token behind for an account we refused to link.
+    await revokeTodoistToken(accessToken);
+    throw err;
+  }
+
+  return prisma.todoistAccount.upsert({
+    where: { userId },
+    update: { accessToken: encryptToken(accessToken), scope: TODOIST_OAUTH_SCOPE },
+    create: { userId, accessToken: encryptToken(accessToken), scope: TODOIST_OAUTH_SCOPE },
+  });
+}
+
+// Best-effort: ask Todoist to invalidate a token issued to this app.
+async function revokeTodoistToken(accessToken: string): Promise<void> {
+  try {
+    await http.delete(`${TODOIST_API_BASE}/access_tokens`, {
+      params: {
+        client_id: process.env.TODOIST_CLIENT_ID,
+        client_secret: process.env.TODOIST_CLIENT_SECRET,
+        access_token: accessToken,
+      },
+    });
+  } catch (err) {
+    // eslint-disable-next-line no-console
+    console.warn('Failed to revoke Todoist access token', err);
+  }
+}
+
+// Remove the user's Todoist connection. OAuth tokens are revoked with Todoist; pasted
+// personal tokens can only be revoked by the user in Todoist's settings.
+export async function disconnectTodoist(userId: string): Promise<void> {
+  const account = await prisma.todoistAccount.findUnique({ where: { userId } });
+
+  if (account?.scope && isTodoistOAuthConfigured()) {
+    await revokeTodoistToken(decryptToken(account.accessToken));
+  }
+
+  await prisma.todoistAccount.deleteMany({ where: { userId } });
+  await prisma.user.update({
+    where: { id: userId },
+    data: { todoistUserId: null },
+  });
+}
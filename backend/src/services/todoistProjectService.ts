@@ -0,0 +1,222 @@
+import { prisma } from '../prisma';
+import { COURSE_NAME_PLACEHOLDER, getSyncSettings, type TodoistColor } from './syncSettingsService';
+import { fetchAllTodoistPages, loadTodoistAccessToken } from './todoistService';
+import { createTempId, createTodoistCommand, sendTodoistCommands } from './todoistSyncApi';
+
+// Auto-provisioning: give every course without a Todoist project one of its own, named
+// from the user's template. Projects are matched by name under the chosen parent before
+// anything is created, so running this again (or after the user made the project by
+// hand) links the existing project instead of adding a duplicate. Courses the user set
+// to "No project" are opted out and never provisioned.
+
+// Todoist rejects longer project names.
+const MAX_PROJECT_NAME_LENGTH = 120;
+
+interface TodoistApiProject {
+  id: string;
+  name: string;
+  parent_id?: string | null;
+  is_archived?: boolean;
+  is_deleted?: boolean;
+  inbox_project?: boolean;
+}
+
+export type ProvisionAction = 'CREATED' | 'LINKED' | 'FAILED';
+
+export interface ProvisionedCourse {
+  courseId: string;
+  courseName: string;
+  projectName: string;
+  todoistProjectId: string | null;
+  action: ProvisionAction;
+  error: string | null;
+}
+
+export interface ProvisionResult {
+  created: number;
+  linked: number;
+  failed: number;
+  courses: ProvisionedCourse[];
+}
+
+interface ProjectStyle {
+  color: TodoistColor | null;
+  parentId: string | null;
+}
+
+export function renderProjectName(template: string, courseName: string): string {
+  return template
+    .split(COURSE_NAME_PLACEHOLDER)
+    .join(courseName.trim())
+    .trim()
+    .slice(0, MAX_PROJECT_NAME_LENGTH);
+}
+
+// Todoist project names aren't unique, but treat names differing only in case or
+// surrounding spaces as the same project.
+const projectKey = (name: string) => name.trim().toLowerCase();
+
+function projectAddCommand(name: string, style: ProjectStyle) {
+  const tempId = createTempId();
+  const command = createTodoistCommand(
+    'project_add',
+    {
+      name,
+      ...(style.color ? { color: style.color } : {}),
+      ...(style.parentId ? { parent_id: style.parentId } : {}),
+    },
+    { tempId },
+  );
+  return { command, tempId };
+}
+
+// The top-level project auto-provisioned projects are nested under, created if missing.
+async function findOrCreateParentProject(
+  accessToken: string,
+  projects: TodoistApiProject[],
+  name: string,
+  color: TodoistColor | null,
+): Promise<string> {
+  const existing = projects.find((p) => !p.parent_id && !p.inbox_project && projectKey(p.name) === projectKey(name));
+  if (existing) return String(existing.id);
+
+  const { command, tempId } = projectAddCommand(name.slice(0, MAX_PROJECT_NAME_LENGTH), { color, parentId: null });
+  const { results, tempIdMapping } = await sendTodoistCommands(accessToken, [command]);
+  const parentId = tempIdMapping.get(tempId);
+  if (!results.get(command.uuid)?.ok || !parentId) {
+    throw new Error(
+      `Could not create the Todoist project "${name}": ${results.get(command.uuid)?.error ?? 'unknown error'}`,
+    );
+  }
+  return parentId;
+}
+
+// Create or link a Todoist project for each of the user's courses that has none and
+// wasn't opted out (only `courseIds` when given). Courses mapped or opted out in the
+// meantime are left alone.
+export async function provisionTodoistProjects(userId: string, courseIds?: string[]): Promise<ProvisionResult> {
+  const result: ProvisionResult = { created: 0, linked: 0, failed: 0, courses: [] };
+
+  const courses = await prisma.course.findMany({
+    where: {
+      userId,
+      todoistProjectId: null,
+      todoistProjectOptOut: false,
+      ...(courseIds ? { id: { in: courseIds } } : {}),
+    },
+    orderBy: { name: 'asc' },
+  });
+  if (courses.length === 0) return result;
+
+  const settings = await getSyncSettings(userId);
+  const accessToken = await loadTodoistAccessToken(userId);
+  const projects = (await fetchAllTodoistPages<TodoistApiProject>(accessToken, 'projects')).filter(
+    (p) => !p.is_archived && !p.is_deleted,
+  );
+
+  const parentId = settings.projectParentName
+    ? await findOrCreateParentProject(accessToken, projects, settings.projectParentName, settings.projectColor)
+    : null;
+  const style: ProjectStyle = { color: settings.projectColor, parentId };
+
+  // Projects that already sit where a new one would go, by name.
+  const existingByKey = new Map<string, string>();
+  for (const project of projects) {
+    if (project.inbox_project) continue;
+    if ((project.parent_id ? String(project.parent_id) : null) !== parentId) continue;
+    if (!existingByKey.has(projectKey(project.name))) {
+      existingByKey.set(projectKey(project.name), String(project.id));
+    }
+  }
+
+  // Courses whose names render the same (e.g. cross-listed sections) share one new project.
+  const toCreateByKey = new Map<
+    string,
+    { projectName: string; add: ReturnType<typeof projectAddCommand>; courses: typeof courses }
+  >();
+
+  const mapCourse = async (courseId: string, projectId: string) => {
+    await prisma.course.updateMany({
+      where: { id: courseId, todoistProjectId: null, todoistProjectOptOut: false },
+      data: { todoistProjectId: projectId },
+    });
+  };
+  const record = (
+    course: (typeof courses)[number],
+    projectName: string,
+    projectId: string | null,
+    action: ProvisionAction,
+    error: string | null = null,
+  ) => {
+    result.courses.push({
+      courseId: course.id,
+      courseName: course.name,
+      projectName,
+      todoistProjectId: projectId,
+      action,
+      error,
+    });
+    if (action === 'CREATED') result.created += 1;
+    else if (action === 'LINKED') result.linked += 1;
+    else result.failed += 1;
+  };
+
+  for (const course of courses) {
+    const projectName = renderProjectName(settings.projectNameTemplate, course.name);
+    const key = projectKey(projectName);
+    const existingId = existingByKey.get(key);
+
+    if (existingId) {
+      await mapCourse(course.id, existingId);
+      record(course, projectName, existingId, 'LINKED');
+      continue;
+    }
+
+    const planned = toCreateByKey.get(key);
+    if (planned) {
+      planned.courses.push(course);
+    } else {
+      toCreateByKey.set(key, { projectName, add: projectAddCommand(projectName, style), courses: [course] });
+    }
+  }
+
+  if (toCreateByKey.size === 0) return result;
+
+  const toCreate = Array.from(toCreateByKey.values());
+  const { results, tempIdMapping } = await sendTodoistCommands(
+    accessToken,
+    toCreate.map((p) => p.add.command),
+  );
+
+  for (const { projectName, add, courses: sharingCourses } of toCreate) {
+    const status = results.get(add.command.uuid);
+    const projectId = tempIdMapping.get(add.tempId) ?? null;
+
+    for (const [index, course] of sharingCourses.entries()) {
+      if (!status?.ok || !projectId) {
+        record(course, projectName, null, 'FAILED', status?.error ?? 'Todoist did not create the project');
+        continue;
+      }
+      await mapCourse(course.id, projectId);
+      record(course, projectName, projectId, index === 0 ? 'CREATED' : 'LINKED');
+    }
+  }
+
+  return result;
+}
+
+// Run provisioning for the courses a Canvas fetch just returned, if the user turned it on
+// and has connected Todoist; null otherwise. Courses from past terms that Canvas no longer
+// lists stay unmapped. Called after importing courses from Canvas, before syncing.
+export async function autoProvisionTodoistProjects(
+  userId: string,
+  courseIds: string[],
+): Promise<ProvisionResult | null> {
+  const settings = await getSyncSettings(userId);
+  if (!settings.autoProvisionProjects) return null;
+
+  const todoistAccount = await prisma.todoistAccount.findUnique({ where: { userId }, select: { id: true } });
+  if (!todoistAccount) return null;
+
+  return provisionTodoistProjects(userId, courseIds);
+}
@@ -1,5 +1,18 @@
-import axios from 'axios';
+import { createHttpStats, http, type HttpStats } from '../httpClient';
 import { prisma } from '../prisma';
+import { decryptToken, encryptToken } from '../tokenCrypto';
+import { toCalendarDate, zonedTimeToUtc } from '../timezone';
+import { getCanvasTimeZone, isSubmittedState, type CanvasItemType } from './canvasService';
+import { createSyncLog, type SyncRunItemInput } from './syncLog';
+import {
+  createTempId,
+  createTodoistCommand,
+  sendTodoistCommands,
+  type TodoistCommand,
+  type TodoistCommandResult,
+} from './todoistSyncApi';
+import { linkTodoistUser } from './todoistOAuthService';
+import { getSyncSettings, type ConflictPolicy, type SyncSettings } from './syncSettingsService';
 
 const TODOIST_API_BASE = 'https://api.todoist.com/api/v1';
 
@@ -26,28 +39,72 @@ export interface PrioritySettingsInput {
   p4?: PriorityRangeInput;
 }
 
-interface TodoistTaskCreateResponse {
-  id: string;
-}
-
 interface TodoistTask {
   id: string;
   content: string;
   project_id: string;
+  priority?: number;
+  labels?: string[];
+  // API v1 has no separate datetime field: a due time is part of `date`, see parseTodoistDue.
   due?: {
     date?: string | null;
   } | null;
 }
 
+export type TodoistCollection = 'tasks' | 'projects' | 'sections' | 'labels';
+
+interface TodoistPage<T> {
+  results?: T[];
+  next_cursor?: string | null;
+}
+
+// Helper to fetch every item of a Todoist API v1 collection. Each page comes in a
+// { results, next_cursor } envelope; keep requesting with the cursor until it is null.
+// This mirrors fetchAllPages on the Canvas side.
+export async function fetchAllTodoistPages<T>(
+  accessToken: string,
+  collection: TodoistCollection,
+  params: Record<string, unknown> = {},
+  stats?: HttpStats,
+): Promise<T[]> {
+  const all: T[] = [];
+  // The largest page size Todoist allows.
+  const limit = 200;
+  let cursor: string | null = null;
+
+  do {
+    const res = await http.get<TodoistPage<T>>(`${TODOIST_API_BASE}/${collection}`, {
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+      },
+      params: { ...params, limit, ...(cursor ? { cursor } : {}) },
+      stats,
+    });
+    const page: TodoistPage<T> = res.data;
+
+    if (!Array.isArray(page.results)) {
+      throw new Error(`Unexpected Todoist ${collection} response shape`);
+    }
+    all.push(...page.results);
+    cursor = page.next_cursor ?? null;
+  } while (cursor);
+
+  return all;
+}
+
 export async function upsertTodoistConfig({ userId, accessToken }: UpsertTodoistConfigParams) {
+  // Also validates the token and refuses Todoist accounts linked to another user.
+  await linkTodoistUser(userId, accessToken);
+
   const account = await prisma.todoistAccount.upsert({
     where: { userId },
     update: {
-      accessToken,
+      accessToken: encryptToken(accessToken),
+      scope: null,
     },
     create: {
       userId,
-      accessToken,
+      accessToken: encryptToken(accessToken),
     },
   });
 
@@ -64,39 +121,58 @@ export async function fetchTodoistProjects(userId: string): Promise<TodoistProje
     throw new Error('Todoist configuration not found. Please save your Todoist token first.');
   }
 
-  const { accessToken } = user.todoistAccount;
-
-  // Todoist API v1 returns paginated results in a { results: [...] } envelope.
-  // However, older REST APIs returned a bare array. Support both shapes here.
-  const res = await axios.get<{ results?: TodoistProject[] } | TodoistProject[]>(`${TODOIST_API_BASE}/projects`, {
-    headers: {
-      Authorization: `Bearer ${accessToken}`,
-    },
-  });
-
-  const data = res.data as any;
-  let projects: TodoistProject[];
-
-  if (Array.isArray(data)) {
-    projects = data;
-  } else if (Array.isArray(data.results)) {
-    projects = data.results;
-  } else {
-    throw new Error('Unexpected Todoist projects response shape');
-  }
+  const accessToken = decryptToken(user.todoistAccount.accessToken);
+  const projects = await fetchAllTodoistPages<TodoistProject>(accessToken, 'projects');
 
   // Only expose the fields Tasklink actually uses.
   return projects.map((p) => ({ id: String(p.id), name: p.name }));
 }
 
+// Due dates are stored as midday UTC on their calendar date, so the UTC fields are
+// the date regardless of the server's timezone.
 function toTodoistDate(date: Date | null): string | undefined {
   if (!date) return undefined;
-  const year = date.getFullYear();
-  const month = `${date.getMonth() + 1}`.padStart(2, '0');
-  const day = `${date.getDate()}`.padStart(2, '0');
+  const year = date.getUTCFullYear();
+  const month = `${date.getUTCMonth() + 1}`.padStart(2, '0');
+  const day = `${date.getUTCDate()}`.padStart(2, '0');
   return `${year}-${month}-${day}`;
 }
 
+// Parse a Todoist date-only string (YYYY-MM-DD) into the same midday-UTC
+// representation we use for Canvas due dates.
+function fromTodoistDate(value: string | null | undefined): Date | null {
+  const match = value ? /^(\d{4})-(\d{2})-(\d{2})/.exec(value) : null;
+  if (!match) return null;
+  return new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3]), 12, 0, 0));
+}
+
+export interface ParsedTodoistDue {
+  // Calendar date in the midday-UTC form; for timed dues, the date in the Canvas timezone.
+  date: Date | null;
+  // Exact due time, or null for date-only dues.
+  time: Date | null;
+}
+
+// Todoist API v1 keeps a task's due time inside `due.date`: "2026-10-19" (date only),
+// "2026-10-20T06:59:00Z" (a fixed time, in UTC) or "2026-10-19T23:59:00" (a floating
+// time, read here in the Canvas timezone). A timed due's date is taken in the Canvas
+// timezone as well, so it compares equal to the date Tasklink pushed for it.
+export function parseTodoistDue(value: string | null | undefined, timeZone: string): ParsedTodoistDue {
+  const match = value
+    ? /^(\d{4})-(\d{2})-(\d{2})(?:T(\d{2}):(\d{2})(?::\d{2}(?:\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/.exec(value)
+    : null;
+  if (!match) return { date: fromTodoistDate(value), time: null };
+
+  const [, year, month, day, hour, minute, zone] = match;
+  if (hour === undefined) return { date: fromTodoistDate(value), time: null };
+
+  const time = zone
+    ? new Date(value as string)
+    : zonedTimeToUtc(Number(year), Number(month), Number(day), Number(hour), Number(minute), timeZone);
+  if (Number.isNaN(time.getTime())) return { date: fromTodoistDate(value), time: null };
+  return { date: toCalendarDate(time, timeZone), time };
+}
+
 type PriorityKey = 'p1' | 'p2' | 'p3' | 'p4';
 
 interface NormalizedPriorityRange {
@@ -193,6 +269,75 @@ function bucketToTodoistPriority(bucket: PriorityKey, settings: NormalizedPriori
 
 const MS_PER_DAY = 1000 * 60 * 60 * 24;
 
+// The Sync API `due` object takes either a date-only date or an exact UTC datetime
+// ("2026-10-19T23:59:00Z"). null removes the due date.
+function todoistDue(change: PlannedTodoistChange): { date: string } | null {
+  if (change.dueTimeAfter) {
+    return { date: change.dueTimeAfter.toISOString().replace(/\.\d{3}Z$/, 'Z') };
+  }
+  const date = toTodoistDate(change.dueDateAfter);
+  return date ? { date } : null;
+}
+
+function todoistLabelFields(change: PlannedTodoistChange): Record<string, unknown> {
+  return change.labels ? { labels: change.labels } : {};
+}
+
+// Fields set on an existing task by an update.
+function todoistTaskFields(change: PlannedTodoistChange): Record<string, unknown> {
+  return { priority: change.priorityAfter, due: todoistDue(change), ...todoistLabelFields(change) };
+}
+
+interface ResolvedField<T> {
+  // Value to send to Todoist.
+  value: T;
+  // Value to remember as "last pushed". Stays at the previous value while a Todoist
+  // edit is being kept, so the conflict is re-evaluated on every sync.
+  pushed: T;
+  conflict: string | null;
+}
+
+// Decide what to send for one field of an already-synced task. The user has edited
+// the field in Todoist when its current value differs from what Tasklink last pushed;
+// only then does the policy come into play.
+function resolveField<T>(
+  label: string,
+  canvasValue: T,
+  todoistValue: T,
+  lastPushed: T,
+  policy: ConflictPolicy,
+  isEarlier: (a: T, b: T) => boolean,
+  format: (value: T) => string,
+): ResolvedField<T> {
+  if (todoistValue === lastPushed || todoistValue === canvasValue) {
+    return { value: canvasValue, pushed: canvasValue, conflict: null };
+  }
+
+  const edited = `${label} changed in Todoist to ${format(todoistValue)} (Canvas: ${format(canvasValue)})`;
+
+  if (policy === 'CANVAS_WINS') {
+    return { value: canvasValue, pushed: canvasValue, conflict: `${edited}; restored the Canvas value` };
+  }
+
+  if (policy === 'ONLY_EARLIER' && isEarlier(canvasValue, todoistValue)) {
+    return { value: canvasValue, pushed: canvasValue, conflict: `${edited}; applied the earlier Canvas value` };
+  }
+
+  return { value: todoistValue, pushed: lastPushed, conflict: `${edited}; kept the Todoist value` };
+}
+
+// Todoist's API uses 4 for its P1 (most urgent) and 1 for P4.
+const formatTodoistPriority = (priority: number | null) => (priority ? `P${5 - priority}` : 'none');
+
+// Date-only strings compare chronologically; "no due date" counts as the latest.
+const isEarlierDate = (a: string | null, b: string | null) => a !== null && (b === null || a < b);
+
+// Short, user-facing description of a rejected Sync API command for the sync log.
+function describeCommandError(result: TodoistCommandResult): string {
+  const message = result.error ?? 'Unknown Todoist error';
+  return result.httpCode ? `Todoist rejected the change (HTTP ${result.httpCode}): ${message}` : message;
+}
+
 export interface SyncWindowOptions {
   // How many days ahead from today to include. If null/undefined, include all future dates.
   daysAhead?: number | null;
@@ -200,20 +345,72 @@ export interface SyncWindowOptions {
   includeNoDueDate?: boolean;
 }
 
-export async function syncAssignmentsToTodoist(
-  userId: string,
-  courseIds: string[],
-  prioritySettings?: PrioritySettingsInput,
-  windowOptions: SyncWindowOptions = {},
-): Promise<{
-  created: number;
-  updated: number;
-  skipped: number;
-}> {
-  if (courseIds.length === 0) {
-    return { created: 0, updated: 0, skipped: 0 };
-  }
+// What the caller chose for this sync. The preview and the sync take the same options,
+// so the changes the user reviews are the ones that get applied.
+export interface SyncPlanOptions {
+  prioritySettings?: PrioritySettingsInput;
+  detectionSettings?: SyncWindowOptions;
+}
+
+// A single change the sync would make for one assignment. The same plan drives both
+// the dry-run preview and the real sync, so what the user reviews is what gets applied.
+export type PlannedChangeAction = 'CREATE' | 'LINK' | 'UPDATE' | 'CLOSE' | 'REOPEN' | 'SKIP';
+
+export interface PlannedTodoistChange {
+  assignmentId: string;
+  canvasAssignmentId: string;
+  assignmentName: string;
+  courseName: string | null;
+  action: PlannedChangeAction;
+  reason: string | null;
+  projectId: string | null;
+  todoistTaskId: string | null;
+  dueDateBefore: Date | null;
+  dueDateAfter: Date | null;
+  // Todoist's current due time, for tasks due at a specific time.
+  dueTimeBefore: Date | null;
+  // Exact Canvas due time to send with the due date; null sends a date-only due.
+  dueTimeAfter: Date | null;
+  // Full label list to set on the task (adds the item type's label); null leaves labels alone.
+  labels: string[] | null;
+  priorityBefore: number | null;
+  priorityAfter: number | null;
+  // Set when the user edited the task in Todoist since the last sync.
+  conflict: string | null;
+  // The Todoist task already matches, so the UPDATE sends nothing to Todoist.
+  upToDate: boolean;
+  // What to record as the last values pushed to Todoist once the change is applied.
+  pushedDueDate: string | null;
+  pushedPriority: number | null;
+}
+
+export interface SyncExecutionOptions {
+  // When set, only these assignments are pushed to Todoist (e.g. the items left
+  // checked on the preview screen). Everything else is logged as skipped.
+  assignmentIds?: string[];
+}
 
+interface SyncPlan {
+  changes: PlannedTodoistChange[];
+}
+
+// A change waiting for the results of its Sync API commands. `kind` is what is actually
+// done, which for a LINK whose shared task isn't being created this run is CREATE.
+interface QueuedTodoistWrite {
+  change: PlannedTodoistChange;
+  kind: Exclude<PlannedChangeAction, 'SKIP'>;
+  // All of these must succeed for the change to count as applied.
+  commandUuids: string[];
+  // The task being changed, or the temp_id of one created in this run.
+  taskId: string | null;
+  tempId: string | null;
+}
+
+type CourseRecord = Awaited<ReturnType<typeof prisma.course.findMany>>[number];
+
+const makeTaskKey = (projectId: string, content: string) => `${projectId}::${content.trim()}`;
+
+export async function loadTodoistAccessToken(userId: string): Promise<string> {
   const user = await prisma.user.findUnique({
     where: { id: userId },
     include: { todoistAccount: true },
@@ -223,294 +420,685 @@ export async function syncAssignmentsToTodoist(
     throw new Error('Todoist configuration not found. Please save your Todoist token first.');
   }
 
-  const { accessToken } = user.todoistAccount;
+  return decryptToken(user.todoistAccount.accessToken);
+}
+
+async function loadMappedCourses(userId: string, courseIds: string[]): Promise<CourseRecord[]> {
+  return prisma.course.findMany({
+    where: {
+      id: { in: courseIds },
+      userId,
+      todoistProjectId: { not: null },
+    },
+  });
+}
+
+// Work out what the sync would do for every assignment in the given courses without
+// writing anything to Todoist or the database. Only read-only Todoist requests are made.
+async function buildSyncPlan(
+  accessToken: string,
+  courses: CourseRecord[],
+  syncSettings: SyncSettings,
+  timeZone: string,
+  options: SyncPlanOptions,
+  httpStats?: HttpStats,
+): Promise<SyncPlan> {
+  const normalizedSettings = normalizePrioritySettings(options.prioritySettings);
+  const { daysAhead, includeNoDueDate = true } = options.detectionSettings ?? {};
+  const maxDaysAhead = typeof daysAhead === 'number' && daysAhead > 0 ? daysAhead : null;
+  const courseById = new Map(courses.map((c) => [c.id, c]));
+
+  const assignments = await prisma.assignment.findMany({
+    where: {
+      courseId: { in: Array.from(courseById.keys()) },
+    },
+    include: { course: true },
+  });
+
+  // Compute the sync window relative to "today". We always treat today as the
+  // lower bound (no past-due assignments), and optionally cap how far ahead
+  // we look based on the caller's preferred look-ahead window.
+  // "Today" is the calendar date in the Canvas account's timezone, in the same
+  // midday-UTC form as stored due dates.
+  const today = toCalendarDate(new Date(), timeZone);
+
+  // The Canvas fetch applies the detection window too, but assignments stored by an
+  // earlier fetch with different settings are filtered again here.
+
+  // Build a cache of existing Todoist tasks per project so we can avoid
+  // creating duplicates on resync and can update due dates for matching tasks.
+  // We key by project + content (title) and ignore existing due dates, since
+  // Tasklink's normalized due date is the source of truth.
+  const projectIds = Array.from(
+    new Set(
+      courses
+        .map((c) => c.todoistProjectId)
+        .filter((p): p is string => typeof p === 'string' && p.length > 0),
+    ),
+  );
+
+  const existingTasksByKey = new Map<string, string>();
+  // Current Todoist state per task id, used to show before/after values.
+  const existingTasksById = new Map<string, TodoistTask>();
+
+  for (const projectId of projectIds) {
+    try {
+      // Read every page: title matching against a partial list creates duplicates.
+      const tasks = await fetchAllTodoistPages<TodoistTask>(
+        accessToken,
+        'tasks',
+        { project_id: projectId },
+        httpStats,
+      );
+
+      for (const task of tasks) {
+        existingTasksById.set(String(task.id), task);
+        const key = makeTaskKey(projectId, task.content);
+        if (!existingTasksByKey.has(key)) {
+          existingTasksByKey.set(key, task.id);
+        }
+      }
+    } catch (err) {
+      // If fetching tasks for a project fails, log and continue. We'll still
+      // avoid duplicates for projects we could read.
+      // eslint-disable-next-line no-console
+      console.warn(`Failed to load existing Todoist tasks for project ${projectId}`, err);
+    }
+  }
+
+  // Titles that an earlier assignment in this plan will create, so duplicates
+  // within the same project share one task instead of creating two.
+  const plannedCreateKeys = new Set<string>();
+  const changes: PlannedTodoistChange[] = [];
+
+  for (const assignment of assignments) {
+    const course = courseById.get(assignment.courseId);
+    const base: Omit<PlannedTodoistChange, 'action' | 'reason'> = {
+      assignmentId: assignment.id,
+      canvasAssignmentId: assignment.canvasAssignmentId,
+      assignmentName: assignment.name,
+      courseName: assignment.course?.name ?? null,
+      projectId: course?.todoistProjectId ?? null,
+      todoistTaskId: assignment.todoistTaskId,
+      dueDateBefore: null,
+      dueDateAfter: assignment.dueDate ?? null,
+      dueTimeBefore: null,
+      dueTimeAfter: null,
+      labels: null,
+      priorityBefore: null,
+      priorityAfter: null,
+      conflict: null,
+      upToDate: false,
+      pushedDueDate: null,
+      pushedPriority: null,
+    };
+
+    if (!course || !course.todoistProjectId) {
+      changes.push({ ...base, action: 'SKIP', reason: 'Course has no linked Todoist project' });
+      continue;
+    }
+
+    // The user deleted this task in Todoist (reported via webhook); don't bring it back.
+    if (assignment.todoistDeletedAt) {
+      changes.push({ ...base, action: 'SKIP', reason: 'Task was deleted in Todoist' });
+      continue;
+    }
+
+    const completedInTodoist = !!assignment.todoistCompletedAt;
+
+    // Canvas says the student turned this in: close its Todoist task rather than
+    // updating it, and don't create tasks for work that's already done. Tasks Tasklink
+    // already closed once and the user reopened in Todoist are left open.
+    if (syncSettings.closeSubmittedTasks && isSubmittedState(assignment.submissionState)) {
+      if (assignment.todoistTaskId && !completedInTodoist && !assignment.closedBySyncAt) {
+        changes.push({ ...base, action: 'CLOSE', reason: `Submitted in Canvas (${assignment.submissionState})` });
+      } else {
+        let reason = 'Already submitted in Canvas';
+        if (completedInTodoist) reason = 'Already completed in Todoist';
+        else if (assignment.todoistTaskId) reason = 'Reopened in Todoist after Tasklink closed it';
+        changes.push({ ...base, action: 'SKIP', reason });
+      }
+      continue;
+    }
+
+    // A completed task only comes back if Canvas asks for a resubmission.
+    const reopen =
+      completedInTodoist &&
+      !!assignment.todoistTaskId &&
+      assignment.submissionState === 'resubmit' &&
+      syncSettings.reopenResubmitTasks;
+
+    if (completedInTodoist && !reopen) {
+      changes.push({ ...base, action: 'SKIP', reason: 'Task is completed in Todoist' });
+      continue;
+    }
+
+    const dueDateValue = assignment.dueDate ?? null;
+    // Exams and quizzes that close mid-day can be synced with their Canvas time.
+    const useDueTime = course.useDueTime ?? syncSettings.useDueTime;
+    const dueTimeValue = useDueTime && dueDateValue ? assignment.dueAt ?? null : null;
+    const typeLabel = syncSettings.itemTypeLabels[assignment.itemType as CanvasItemType] ?? null;
+
+    let diffDays: number | null = null;
+    if (dueDateValue) {
+      const diffMs = dueDateValue.getTime() - today.getTime();
+      diffDays = Math.round(diffMs / MS_PER_DAY);
+
+      // Skip clearly past-due assignments; we only care about today and future.
+      if (diffDays < 0) {
+        changes.push({ ...base, action: 'SKIP', reason: 'Past due' });
+        continue;
+      }
+
+      if (maxDaysAhead !== null && diffDays > maxDaysAhead) {
+        changes.push({ ...base, action: 'SKIP', reason: `Due beyond the ${maxDaysAhead}-day look-ahead window` });
+        continue;
+      }
+    } else if (!includeNoDueDate) {
+      changes.push({ ...base, action: 'SKIP', reason: 'No due date (excluded by detection settings)' });
+      continue;
+    }
+
+    const conceptualBucket: PriorityKey = (() => {
+      if (!dueDateValue || diffDays === null) return 'p4';
+      return computeConceptualBucket(diffDays, normalizedSettings);
+    })();
+
+    const todoistPriority = bucketToTodoistPriority(conceptualBucket, normalizedSettings);
+
+    // Describe a change to an existing Todoist task.
+    const changeTo = (taskId: string | null): Omit<PlannedTodoistChange, 'action' | 'reason'> => {
+      const current = taskId ? existingTasksById.get(taskId) : undefined;
+      const currentDue = parseTodoistDue(current?.due?.date, timeZone);
+      // Add the item type's label without dropping labels the user put on the task.
+      // Tasks we couldn't read are left alone rather than risk overwriting their labels.
+      let labels: string[] | null = null;
+      if (typeLabel && !taskId) {
+        labels = [typeLabel];
+      } else if (typeLabel && current && !(current.labels ?? []).includes(typeLabel)) {
+        labels = [...(current.labels ?? []), typeLabel];
+      }
+      return {
+        ...base,
+        todoistTaskId: taskId,
+        dueDateBefore: current ? currentDue.date : null,
+        dueTimeBefore: current ? currentDue.time : null,
+        priorityBefore: current?.priority ?? null,
+        dueTimeAfter: dueTimeValue,
+        labels,
+        priorityAfter: todoistPriority,
+        pushedDueDate: toTodoistDate(dueDateValue) ?? null,
+        pushedPriority: todoistPriority,
+      };
+    };
+
+    if (reopen && assignment.todoistTaskId) {
+      changes.push({
+        ...changeTo(assignment.todoistTaskId),
+        action: 'REOPEN',
+        reason: 'Canvas requested a resubmission',
+      });
+      continue;
+    }
+
+    // For assignments that already have a Todoist task, update both priority
+    // and due date so they stay aligned with Canvas, unless the user has edited
+    // them in Todoist and their conflict policy says to keep those edits.
+    if (assignment.todoistTaskId) {
+      let change = changeTo(assignment.todoistTaskId);
+      const current = existingTasksById.get(assignment.todoistTaskId);
+
+      if (current && assignment.lastPushedPriority !== null) {
+        const currentDueDate = toTodoistDate(change.dueDateBefore) ?? null;
+        const due = resolveField(
+          'Due date',
+          change.pushedDueDate,
+          currentDueDate,
+          assignment.lastPushedDueDate,
+          syncSettings.dueDateConflictPolicy,
+          isEarlierDate,
+          (value) => value ?? 'none',
+        );
+        const priority = resolveField<number | null>(
+          'Priority',
+          todoistPriority,
+          current.priority ?? null,
+          assignment.lastPushedPriority,
+          syncSettings.priorityConflictPolicy,
+          (a, b) => (a ?? 0) > (b ?? 0),
+          formatTodoistPriority,
+        );
+
+        change = {
+          ...change,
+          dueDateAfter: due.value === change.pushedDueDate ? dueDateValue : fromTodoistDate(due.value),
+          // Keeping the Todoist date keeps its time too.
+          dueTimeAfter: due.value === change.pushedDueDate ? dueTimeValue : change.dueTimeBefore,
+          priorityAfter: priority.value,
+          pushedDueDate: due.pushed,
+          pushedPriority: priority.pushed,
+          conflict: [due.conflict, priority.conflict].filter((c): c is string => !!c).join('. ') || null,
+        };
+      }
+
+      const unchanged =
+        !!current &&
+        change.priorityBefore === change.priorityAfter &&
+        toTodoistDate(change.dueDateBefore) === toTodoistDate(change.dueDateAfter) &&
+        (change.dueTimeBefore?.getTime() ?? null) === (change.dueTimeAfter?.getTime() ?? null) &&
+        !change.labels;
+      changes.push({
+        ...change,
+        action: 'UPDATE',
+        upToDate: unchanged,
+        reason: unchanged ? 'Already up to date' : null,
+      });
+      continue;
+    }
+
+    // If the assignment doesn't have a Todoist task yet, first try to link it
+    // to an existing Todoist task with the same project and title. When a
+    // match is found, we also update the Todoist task's due date and priority
+    // to reflect the normalized Canvas due date.
+    const taskKey = makeTaskKey(course.todoistProjectId, assignment.name);
+    const existingTaskId = existingTasksByKey.get(taskKey);
+
+    if (existingTaskId) {
+      changes.push({
+        ...changeTo(existingTaskId),
+        action: 'LINK',
+        reason: 'Matched an existing Todoist task with the same title',
+      });
+      continue;
+    }
+
+    if (plannedCreateKeys.has(taskKey)) {
+      changes.push({
+        ...changeTo(null),
+        action: 'LINK',
+        reason: 'Shares the Todoist task created for another assignment with the same title',
+      });
+      continue;
+    }
+
+    plannedCreateKeys.add(taskKey);
+    changes.push({ ...changeTo(null), action: 'CREATE', reason: null });
+  }
+
+  // Assignments whose last sync failed are retried like any other; say so in the log.
+  const failedSyncs = new Map(
+    assignments.filter((a) => a.syncFailedAt).map((a) => [a.id, a.syncError ?? 'unknown error']),
+  );
+  for (const change of changes) {
+    const previousError = failedSyncs.get(change.assignmentId);
+    if (previousError && change.action !== 'SKIP' && !change.upToDate && !change.reason) {
+      change.reason = `Retrying after the last sync failed: ${previousError}`;
+    }
+  }
+
+  return { changes };
+}
+
+// Load everything the plan depends on for the user's mapped courses and build it. Shared
+// by the preview and the sync so both plan from the same settings.
+async function planTodoistSync(
+  userId: string,
+  accessToken: string,
+  courseIds: string[],
+  options: SyncPlanOptions,
+  httpStats?: HttpStats,
+): Promise<SyncPlan> {
+  const courses = await loadMappedCourses(userId, courseIds);
+  if (courses.length === 0) return { changes: [] };
+
+  const syncSettings = await getSyncSettings(userId);
+  const timeZone = await getCanvasTimeZone(userId);
+  return buildSyncPlan(accessToken, courses, syncSettings, timeZone, options, httpStats);
+}
+
+// Dry run: return the changes a sync would make, without touching Todoist or the database.
+export async function previewTodoistSync(
+  userId: string,
+  courseIds: string[],
+  options: SyncPlanOptions = {},
+): Promise<PlannedTodoistChange[]> {
+  if (courseIds.length === 0) return [];
+
+  const accessToken = await loadTodoistAccessToken(userId);
+  const plan = await planTodoistSync(userId, accessToken, courseIds, options);
+  return plan.changes;
+}
+
+export type SyncRunStatus = 'SUCCESS' | 'PARTIAL' | 'ERROR';
+
+export interface SyncResult {
+  syncRunId: string | null;
+  status: SyncRunStatus;
+  created: number;
+  updated: number;
+  closed: number;
+  skipped: number;
+  failed: number;
+}
+
+// Sync log fields shared by every outcome of a planned change.
+function toLogEntry(change: PlannedTodoistChange): Omit<SyncRunItemInput, 'action'> {
+  return {
+    assignmentId: change.assignmentId,
+    canvasAssignmentId: change.canvasAssignmentId,
+    assignmentName: change.assignmentName,
+    courseName: change.courseName,
+    todoistTaskId: change.todoistTaskId,
+    dueDateBefore: change.dueDateBefore,
+    dueDateAfter: change.dueDateAfter,
+    priorityBefore: change.priorityBefore,
+    priorityAfter: change.priorityAfter,
+    conflict: change.conflict,
+  };
+}
+
+export async function syncAssignmentsToTodoist(
+  userId: string,
+  courseIds: string[],
+  options: SyncPlanOptions = {},
+  executionOptions: SyncExecutionOptions = {},
+): Promise<SyncResult> {
+  if (courseIds.length === 0) {
+    return { syncRunId: null, status: 'SUCCESS', created: 0, updated: 0, closed: 0, skipped: 0, failed: 0 };
+  }
 
-  const normalizedSettings = normalizePrioritySettings(prioritySettings);
+  const accessToken = await loadTodoistAccessToken(userId);
 
   // Create a sync run record for visibility in the UI.
   const syncRun = await prisma.syncRun.create({
     data: {
-      userId: user.id,
+      userId,
       status: 'RUNNING',
       message: `Starting sync for ${courseIds.length} course(s).`,
     },
   });
+  const syncLog = createSyncLog(syncRun.id);
+  const httpStats = createHttpStats();
 
-  const markSuccess = async (created: number, updated: number, skipped: number) => {
+  const markFinished = async (result: SyncResult) => {
+    const { created, updated, closed, skipped, failed } = result;
+    await syncLog.flush();
     await prisma.syncRun.update({
       where: { id: syncRun.id },
       data: {
         finishedAt: new Date(),
-        status: 'SUCCESS',
-        message: `Created ${created} task(s), updated ${updated}, skipped ${skipped}.`,
+        status: result.status,
+        message:
+          `Created ${created} task(s), updated ${updated}, closed ${closed}, skipped ${skipped}` +
+          (failed > 0 ? `, failed ${failed} (will be retried on the next sync).` : '.'),
+        retryCount: httpStats.retries,
       },
     });
+    return result;
   };
 
   const markError = async (err: unknown) => {
+    await syncLog.flush();
     await prisma.syncRun.update({
       where: { id: syncRun.id },
       data: {
         finishedAt: new Date(),
         status: 'ERROR',
         message: err instanceof Error ? err.message : 'Unknown sync error',
+        retryCount: httpStats.retries,
       },
     });
   };
 
   try {
-    const courses = await prisma.course.findMany({
-      where: {
-        id: { in: courseIds },
-        userId,
-        todoistProjectId: { not: null },
-      },
-    });
-
-    if (courses.length === 0) {
-      await markSuccess(0, 0, 0);
-      return { created: 0, updated: 0, skipped: 0 };
-    }
-
-    const courseById = new Map(courses.map((c) => [c.id, c]));
-
-    const assignments = await prisma.assignment.findMany({
-      where: {
-        courseId: { in: Array.from(courseById.keys()) },
-      },
-      include: { course: true },
-    });
-
-    // Compute the sync window relative to "today". We always treat today as the
-    // lower bound (no past-due assignments), and optionally cap how far ahead
-    // we look based on the caller's preferred look-ahead window.
-    const now = new Date();
-    const todayMidnight = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-
-    // For now, rely on the Canvas fetch step to enforce the user's detection
-    // window. During sync we only treat clearly past-due assignments
-    // specially; everything else in the database is eligible to sync.
-
-    // Build a cache of existing Todoist tasks per project so we can avoid
-    // creating duplicates on resync and can update due dates for matching tasks.
-    // We key by project + content (title) and ignore existing due dates, since
-    // Tasklink's normalized due date is the source of truth.
-    const projectIds = Array.from(
-      new Set(
-        courses
-          .map((c) => c.todoistProjectId)
-          .filter((p): p is string => typeof p === 'string' && p.length > 0),
-      ),
-    );
-
-    const existingTasksByKey = new Map<string, string>();
-
-    const makeTaskKey = (projectId: string, content: string) =>
-      `${projectId}::${content.trim()}`;
-
-    for (const projectId of projectIds) {
-      try {
-        // Todoist API v1 returns paginated task results in a { results: [...] } envelope.
-        // We only need the first page for each project, which is limited to 50 tasks by default.
-        const res = await axios.get<{ results?: TodoistTask[] } | TodoistTask[]>(`${TODOIST_API_BASE}/tasks`, {
-          headers: {
-            Authorization: `Bearer ${accessToken}`,
-          },
-          params: {
-            project_id: projectId,
-          },
-        });
-
-        const data = res.data as any;
-        const tasks: TodoistTask[] = Array.isArray(data) ? data : data.results ?? [];
-
-        for (const task of tasks ?? []) {
-          const key = makeTaskKey(projectId, task.content);
-          if (!existingTasksByKey.has(key)) {
-            existingTasksByKey.set(key, task.id);
-          }
-        }
-      } catch (err) {
-        // If fetching tasks for a project fails, log and continue. We'll still
-        // avoid duplicates for projects we could read.
-        // eslint-disable-next-line no-console
-        console.warn(`Failed to load existing Todoist tasks for project ${projectId}`, err);
-      }
-    }
+    const { changes } = await planTodoistSync(userId, accessToken, courseIds, options, httpStats);
+    const selectedIds = executionOptions.assignmentIds ? new Set(executionOptions.assignmentIds) : null;
 
     let created = 0;
     let updated = 0;
+    let closed = 0;
     let skipped = 0;
-
-    for (const assignment of assignments) {
-      const course = courseById.get(assignment.courseId);
-      if (!course || !course.todoistProjectId) {
+    let failed = 0;
+    let firstFailure: string | null = null;
+
+    // Written along with every successful change, so the assignment is no longer retried.
+    const clearedFailure = { syncFailedAt: null, syncError: null };
+
+    // The linked Todoist task is gone (404): forget it so a future sync can recreate it.
+    const forgetDeletedTask = async (assignmentId: string) => {
+      await prisma.assignment.update({
+        where: { id: assignmentId },
+        data: {
+          todoistTaskId: null,
+          todoistCompletedAt: null,
+          closedBySyncAt: null,
+          lastPushedDueDate: null,
+          lastPushedPriority: null,
+          lastSyncedAt: new Date(),
+          ...clearedFailure,
+        },
+      });
+    };
+
+    // Log a failed change and flag its assignment so the next run retries it. One
+    // assignment failing never stops the others.
+    const recordFailure = async (change: PlannedTodoistChange, reason: string) => {
+      syncLog.add({ ...toLogEntry(change), action: 'FAILED', reason });
+      failed += 1;
+      firstFailure = firstFailure ?? reason;
+      await prisma.assignment
+        .update({
+          where: { id: change.assignmentId },
+          data: { syncFailedAt: new Date(), syncError: reason },
+        })
+        .catch((err) => {
+          // eslint-disable-next-line no-console
+          console.error(`Failed to flag assignment ${change.assignmentId} for retry`, err);
+        });
+    };
+
+    // Queue every write as a Sync API command first, then send them in batches and apply
+    // the results. Tasks created in this run are tracked by temp_id per project + title,
+    // so a later assignment with the same title links to the new task instead of
+    // creating a second one.
+    const commands: TodoistCommand[] = [];
+    const queued: QueuedTodoistWrite[] = [];
+    const createdTempIdsByKey = new Map<string, string>();
+
+    const queue = (write: Omit<QueuedTodoistWrite, 'commandUuids'>, ...writeCommands: TodoistCommand[]) => {
+      commands.push(...writeCommands);
+      queued.push({ ...write, commandUuids: writeCommands.map((command) => command.uuid) });
+    };
+
+    for (const change of changes) {
+      if (change.action === 'SKIP' || !change.projectId) {
+        syncLog.add({ ...toLogEntry(change), action: 'SKIPPED', reason: change.reason });
         skipped += 1;
         continue;
       }
 
-      const dueDateValue = assignment.dueDate ?? null;
+      if (selectedIds && !selectedIds.has(change.assignmentId)) {
+        syncLog.add({ ...toLogEntry(change), action: 'SKIPPED', reason: 'Excluded on the sync preview screen' });
+        skipped += 1;
+        continue;
+      }
 
-      let diffDays: number | null = null;
-      if (dueDateValue) {
-        const dueMidnight = new Date(
-          dueDateValue.getFullYear(),
-          dueDateValue.getMonth(),
-          dueDateValue.getDate(),
+      if (change.action === 'CLOSE' && change.todoistTaskId) {
+        queue(
+          { change, kind: 'CLOSE', taskId: change.todoistTaskId, tempId: null },
+          createTodoistCommand('item_close', { id: change.todoistTaskId }),
         );
-        const diffMs = dueMidnight.getTime() - todayMidnight.getTime();
-        diffDays = Math.round(diffMs / MS_PER_DAY);
+        continue;
+      }
 
-        // Skip clearly past-due assignments; we only care about today and future.
-        if (diffDays < 0) {
-          skipped += 1;
-          continue;
-        }
+      // A reopened task also gets the current due date and priority.
+      if (change.action === 'REOPEN' && change.todoistTaskId) {
+        queue(
+          { change, kind: 'REOPEN', taskId: change.todoistTaskId, tempId: null },
+          createTodoistCommand('item_uncomplete', { id: change.todoistTaskId }),
+          createTodoistCommand('item_update', { id: change.todoistTaskId, ...todoistTaskFields(change) }),
+        );
+        continue;
       }
 
-      const conceptualBucket: PriorityKey = (() => {
-        if (!dueDateValue || diffDays === null) return 'p4';
-        return computeConceptualBucket(diffDays, normalizedSettings);
-      })();
-
-      const todoistPriority = bucketToTodoistPriority(conceptualBucket, normalizedSettings);
-      const dueDate = toTodoistDate(assignment.dueDate);
-
-      // If the assignment doesn't have a Todoist task yet, first try to link it
-      // to an existing Todoist task with the same project and title. When a
-      // match is found, we also update the Todoist task's due date and priority
-      // to reflect the normalized Canvas due date.
-      if (!assignment.todoistTaskId) {
-        const taskKey = makeTaskKey(course.todoistProjectId, assignment.name);
-        const existingTaskId = existingTasksByKey.get(taskKey);
-
-        if (existingTaskId) {
-          try {
-            const updateBody: Record<string, unknown> = {
-              priority: todoistPriority,
-              due_date: dueDate ?? null,
-            };
-
-            await axios.post(
-              `${TODOIST_API_BASE}/tasks/${existingTaskId}`,
-              updateBody,
-              {
-                headers: {
-                  Authorization: `Bearer ${accessToken}`,
-                  'Content-Type': 'application/json',
-                },
-              },
-            );
-
-            await prisma.assignment.update({
-              where: { id: assignment.id },
-              data: {
-                todoistTaskId: existingTaskId,
-                lastSyncedAt: new Date(),
-              },
-            });
-            updated += 1;
-          } catch (err) {
-            const status = (err as any)?.response?.status;
-            // If the task was deleted in Todoist (404), fall back to creating a
-            // new one below. For other errors (401, 403, 500, ...), surface the
-            // problem instead of silently skipping everything.
-            if (status !== 404) {
-              await markError(err);
-              throw err;
-            }
-          }
+      if (change.action === 'UPDATE' && change.todoistTaskId) {
+        // Nothing to send for a task that already matches (rewriting it would also echo back
+        // as a webhook); it is still queued so the assignment's sync state gets recorded.
+        queue(
+          { change, kind: 'UPDATE', taskId: change.todoistTaskId, tempId: null },
+          ...(change.upToDate
+            ? []
+            : [createTodoistCommand('item_update', { id: change.todoistTaskId, ...todoistTaskFields(change) })]),
+        );
+        continue;
+      }
 
+      const taskKey = makeTaskKey(change.projectId, change.assignmentName);
+
+      // Link to a matching task: either one that existed before the run or one created
+      // earlier in this run for an assignment with the same title. The latter already
+      // carries a due date and priority, so it is only linked.
+      if (change.action === 'LINK') {
+        if (change.todoistTaskId) {
+          queue(
+            { change, kind: 'LINK', taskId: change.todoistTaskId, tempId: null },
+            createTodoistCommand('item_update', { id: change.todoistTaskId, ...todoistTaskFields(change) }),
+          );
           continue;
         }
-
-        const body: Record<string, unknown> = {
-          content: assignment.name,
-          project_id: course.todoistProjectId,
-          priority: todoistPriority,
-        };
-
-        if (dueDate) {
-          body.due_date = dueDate;
+        const sharedTempId = createdTempIdsByKey.get(taskKey);
+        if (sharedTempId) {
+          queue({ change, kind: 'LINK', taskId: null, tempId: sharedTempId });
+          continue;
         }
+        // The task it would share wasn't selected for this run: create it instead.
+      }
 
-        try {
-          const res = await axios.post<TodoistTaskCreateResponse>(`${TODOIST_API_BASE}/tasks`, body, {
-            headers: {
-              Authorization: `Bearer ${accessToken}`,
-              'Content-Type': 'application/json',
-            },
-          });
+      const tempId = createTempId();
+      createdTempIdsByKey.set(taskKey, tempId);
+      queue(
+        { change, kind: 'CREATE', taskId: null, tempId },
+        createTodoistCommand(
+          'item_add',
+          {
+            content: change.assignmentName,
+            project_id: change.projectId,
+            priority: change.priorityAfter,
+            ...(change.dueDateAfter ? { due: todoistDue(change) } : {}),
+            ...todoistLabelFields(change),
+          },
+          { tempId },
+        ),
+      );
+    }
 
-          await prisma.assignment.update({
-            where: { id: assignment.id },
-            data: {
-              todoistTaskId: res.data.id,
-              lastSyncedAt: new Date(),
-            },
+    const { results, tempIdMapping } = await sendTodoistCommands(accessToken, commands, httpStats);
+
+    // Apply Todoist's answer for one queued change to the database and the sync log.
+    const applyWrite = async ({ change, kind, commandUuids, taskId, tempId }: QueuedTodoistWrite) => {
+      const logEntry = toLogEntry(change);
+      const pushedFields = {
+        lastPushedDueDate: change.pushedDueDate,
+        lastPushedPriority: change.pushedPriority,
+      };
+      const failure = commandUuids.map((uuid) => results.get(uuid)).find((result) => !result?.ok);
+      const resolvedTaskId = taskId ?? (tempId ? tempIdMapping.get(tempId) ?? null : null);
+
+      if (failure?.httpCode === 404 && kind !== 'CREATE') {
+        if (kind === 'LINK') {
+          syncLog.add({ ...logEntry, action: 'SKIPPED', reason: 'Matching Todoist task no longer exists' });
+        } else {
+          await forgetDeletedTask(change.assignmentId);
+          syncLog.add({
+            ...logEntry,
+            action: 'SKIPPED',
+            reason: 'Todoist task was deleted; it will be recreated on the next sync',
           });
-
-          // Track this newly created task in our cache so we don't create
-          // another one for the same assignment during this sync run.
-          existingTasksByKey.set(taskKey, res.data.id);
-
-          created += 1;
-        } catch (err) {
-          await markError(err);
-          throw err;
         }
-
-        continue;
+        skipped += 1;
+        return;
       }
 
-      // For assignments that already have a Todoist task, update both priority
-      // and due date so they stay aligned with Canvas.
-      try {
-        const updateBody: Record<string, unknown> = {
-          priority: todoistPriority,
-          due_date: dueDate ?? null,
-        };
-
-        await axios.post(
-          `${TODOIST_API_BASE}/tasks/${assignment.todoistTaskId}`,
-          updateBody,
-          {
-            headers: {
-              Authorization: `Bearer ${accessToken}`,
-              'Content-Type': 'application/json',
-            },
-          },
+      if (failure || !resolvedTaskId) {
+        await recordFailure(
+          change,
+          failure
+            ? describeCommandError(failure)
+            : 'The Todoist task shared with another assignment could not be created',
         );
+        return;
+      }
 
+      if (kind === 'CLOSE' || kind === 'REOPEN') {
+        const closing = kind === 'CLOSE';
         await prisma.assignment.update({
-          where: { id: assignment.id },
+          where: { id: change.assignmentId },
           data: {
+            todoistCompletedAt: closing ? new Date() : null,
+            closedBySyncAt: closing ? new Date() : null,
+            ...(closing ? {} : pushedFields),
+            ...clearedFailure,
             lastSyncedAt: new Date(),
           },
         });
-        updated += 1;
-      } catch (err) {
-        const status = (err as any)?.response?.status;
-        if (status === 404) {
-          // If the task no longer exists in Todoist (e.g., deleted manually), clear the
-          // todoistTaskId so that a future sync can recreate it.
-          await prisma.assignment.update({
-            where: { id: assignment.id },
-            data: {
-              todoistTaskId: null,
-              lastSyncedAt: new Date(),
-            },
-          });
-          skipped += 1;
+        syncLog.add({ ...logEntry, action: closing ? 'CLOSED' : 'REOPENED', reason: change.reason });
+        if (closing) {
+          closed += 1;
         } else {
-          await markError(err);
-          throw err;
+          updated += 1;
         }
+        return;
+      }
+
+      await prisma.assignment.update({
+        where: { id: change.assignmentId },
+        data: {
+          ...(kind === 'UPDATE' ? {} : { todoistTaskId: resolvedTaskId, closedBySyncAt: null }),
+          ...pushedFields,
+          ...clearedFailure,
+          lastSyncedAt: new Date(),
+        },
+      });
+
+      if (kind === 'CREATE') {
+        syncLog.add({ ...logEntry, todoistTaskId: resolvedTaskId, action: 'CREATED', reason: change.reason });
+        created += 1;
+      } else if (kind === 'UPDATE' && change.upToDate) {
+        syncLog.add({ ...logEntry, todoistTaskId: resolvedTaskId, action: 'SKIPPED', reason: change.reason });
+        skipped += 1;
+      } else {
+        syncLog.add({
+          ...logEntry,
+          todoistTaskId: resolvedTaskId,
+          action: kind === 'LINK' ? 'LINKED' : 'UPDATED',
+          reason: change.reason,
+        });
+        updated += 1;
+      }
+    };
+
+    for (const write of queued) {
+      try {
+        await applyWrite(write);
+      } catch (err) {
+        await recordFailure(write.change, err instanceof Error ? err.message : 'Unknown error');
       }
     }
 
-    await markSuccess(created, updated, skipped);
-    return { created, updated, skipped };
+    // PARTIAL when some changes went through; ERROR only when every attempted change failed.
+    if (failed > 0 && failed === queued.length) {
+      throw new Error(`All ${failed} Todoist change(s) failed. First error: ${firstFailure}`);
+    }
+
+    return markFinished({
+      syncRunId: syncRun.id,
+      status: failed > 0 ? 'PARTIAL' : 'SUCCESS',
+      created,
+      updated,
+      closed,
+      skipped,
+      failed,
+    });
   } catch (err) {
     await markError(err);
     throw err;
@@ -0,0 +1,124 @@
+import crypto from 'crypto';
+import { http, type HttpStats } from '../httpClient';
+
+const TODOIST_SYNC_URL = 'https://api.todoist.com/api/v1/sync';
+
+// Todoist accepts at most 100 commands per /sync request.
+const MAX_COMMANDS_PER_REQUEST = 100;
+
+export type TodoistCommandType = 'item_add' | 'item_update' | 'item_close' | 'item_uncomplete' | 'project_add';
+
+// One Sync API write. `uuid` identifies the command in `sync_status`; `temp_id` names the
+// task an item_add will create until Todoist returns its real id in `temp_id_mapping`.
+export interface TodoistCommand {
+  type: TodoistCommandType;
+  uuid: string;
+  temp_id?: string;
+  args: Record<string, unknown>;
+}
+
+export interface TodoistCommandResult {
+  ok: boolean;
+  // Todoist's description of the failure, e.g. "Item not found".
+  error: string | null;
+  httpCode: number | null;
+}
+
+export interface TodoistCommandBatchResult {
+  // Per-command outcome, keyed by command uuid.
+  results: Map<string, TodoistCommandResult>;
+  // temp_id -> real Todoist id for every task created.
+  tempIdMapping: Map<string, string>;
+}
+
+type SyncStatus = 'ok' | { error?: string; error_code?: number; http_code?: number };
+
+interface TodoistSyncResponse {
+  sync_status?: Record<string, SyncStatus>;
+  temp_id_mapping?: Record<string, string>;
+}
+
+export function createTodoistCommand(
+  type: TodoistCommandType,
+  args: Record<string, unknown>,
+  options: { tempId?: string } = {},
+): TodoistCommand {
+  return {
+    type,
+    uuid: crypto.randomUUID(),
+    ...(options.tempId ? { temp_id: options.tempId } : {}),
+    args,
+  };
+}
+
+export const createTempId = () => crypto.randomUUID();
+
+function toCommandResult(status: SyncStatus | undefined): TodoistCommandResult {
+  if (status === 'ok') {
+    return { ok: true, error: null, httpCode: null };
+  }
+  if (!status) {
+    return { ok: false, error: 'Todoist did not report a result for this change', httpCode: null };
+  }
+  return {
+    ok: false,
+    error: status.error ?? `Todoist error ${status.error_code ?? 'unknown'}`,
+    httpCode: status.http_code ?? null,
+  };
+}
+
+// Send commands to the Sync API in batches of up to 100. A command failing on Todoist's
+// side is reported in `results` and does not stop the others. So does a batch whose
+// request fails after the HTTP client's retries: its commands are reported as failed
+// and the next batch is still sent. Only authentication failures reject, since every
+// later batch would fail the same way.
+//
+// A temp_id can only be referenced by commands in the same request, so callers should
+// resolve references to tasks created here through the returned mapping instead.
+export async function sendTodoistCommands(
+  accessToken: string,
+  commands: TodoistCommand[],
+  stats?: HttpStats,
+): Promise<TodoistCommandBatchResult> {
+  const results = new Map<string, TodoistCommandResult>();
+  const tempIdMapping = new Map<string, string>();
+
+  for (let i = 0; i < commands.length; i += MAX_COMMANDS_PER_REQUEST) {
+    const batch = commands.slice(i, i + MAX_COMMANDS_PER_REQUEST);
+    let res;
+    try {
+      res = await http.post<TodoistSyncResponse>(
+        TODOIST_SYNC_URL,
+        new URLSearchParams({ commands: JSON.stringify(batch) }).toString(),
+        {
+          headers: {
+            Authorization: `Bearer ${accessToken}`,
+            'Content-Type': 'application/x-www-form-urlencoded',
+          },
+          stats,
+          // Todoist ignores commands whose uuid it has already applied, so resending is safe.
+          retryable: true,
+        },
+      );
+    } catch (err) {
+      const status = (err as { response?: { status?: number } })?.response?.status ?? null;
+      if (status === 401 || status === 403) throw err;
+
+      const message = err instanceof Error ? err.message : 'Todoist request failed';
+      for (const command of batch) {
+        results.set(command.uuid, { ok: false, error: message, httpCode: null });
+      }
+      continue;
+    }
+
+    const syncStatus = res.data.sync_status ?? {};
+    for (const command of batch) {
+      results.set(command.uuid, toCommandResult(syncStatus[command.uuid]));
+    }
+    for (const [tempId, id] of Object.entries(res.data.temp_id_mapping ?? {})) {
+      tempIdMapping.set(tempId, String(id));
+    }
+  }
+
+  return { results, tempIdMapping };
+}
@@ -0,0 +1,100 @@
+import crypto from 'crypto';
+import { prisma } from '../prisma';
+
+// Subset of Todoist's webhook payload that Tasklink relies on.
+// See https://developer.todoist.com/api/v1/#tag/Webhooks
+export interface TodoistWebhookEvent {
+  event_name?: string;
+  user_id?: string | number;
+  event_data?: {
+    id?: string | number;
+    checked?: boolean;
+    is_deleted?: boolean;
+    completed_at?: string | null;
+  } | null;
+}
+
+export interface TodoistWebhookResult {
+  handled: boolean;
+  assignmentsUpdated: number;
+}
+
+const HANDLED_EVENTS = new Set(['item:completed', 'item:uncompleted', 'item:deleted', 'item:updated']);
+
+export function isTodoistWebhookConfigured(): boolean {
+  return !!process.env.TODOIST_CLIENT_SECRET;
+}
+
+// Todoist signs each delivery with HMAC-SHA256 of the raw request body, keyed by the
+// app's client secret, and sends it base64-encoded in X-Todoist-Hmac-SHA256.
+export function verifyTodoistSignature(rawBody: Buffer, signature: string | undefined): boolean {
+  const secret = process.env.TODOIST_CLIENT_SECRET;
+  if (!secret || !signature) return false;
+
+  const expected = crypto.createHmac('sha256', secret).update(rawBody).digest();
+  let provided: Buffer;
+  try {
+    provided = Buffer.from(signature, 'base64');
+  } catch {
+    return false;
+  }
+
+  return provided.length === expected.length && crypto.timingSafeEqual(provided, expected);
+}
+
+function parseEventDate(value: string | null | undefined): Date {
+  const date = value ? new Date(value) : null;
+  return date && !Number.isNaN(date.getTime()) ? date : new Date();
+}
+
+// Record what the user did to a synced task in Todoist on the matching assignment(s),
+// so later syncs don't undo it.
+export async function handleTodoistWebhookEvent(event: TodoistWebhookEvent): Promise<TodoistWebhookResult> {
+  const eventName = event.event_name ?? '';
+  const taskId = event.event_data?.id != null ? String(event.event_data.id) : null;
+
+  if (!HANDLED_EVENTS.has(eventName) || !taskId) {
+    return { handled: false, assignmentsUpdated: 0 };
+  }
+
+  // Only touch assignments owned by the Todoist user the event is about. Accounts
+  // connected with a pasted token may not have a Todoist user id recorded yet.
+  const todoistUserId = event.user_id != null ? String(event.user_id) : null;
+  const where = {
+    todoistTaskId: taskId,
+    course: {
+      user: todoistUserId ? { OR: [{ todoistUserId }, { todoistUserId: null }] } : {},
+    },
+  };
+
+  let data: { todoistCompletedAt?: Date | null; todoistDeletedAt?: Date | null };
+
+  switch (eventName) {
+    case 'item:completed':
+      data = { todoistCompletedAt: parseEventDate(event.event_data?.completed_at) };
+      break;
+    case 'item:uncompleted':
+      data = { todoistCompletedAt: null };
+      break;
+    case 'item:deleted':
+      data = { todoistDeletedAt: new Date() };
+      break;
+    default: {
+      // item:updated carries the full task; mirror its completion/deletion flags.
+      const item = event.event_data ?? {};
+      data = {};
+      if (typeof item.checked === 'boolean') {
+        data.todoistCompletedAt = item.checked ? parseEventDate(item.completed_at) : null;
+      }
+      if (item.is_deleted) {
+        data.todoistDeletedAt = new Date();
+      }
+      if (Object.keys(data).length === 0) {
+        return { handled: true, assignmentsUpdated: 0 };
+      }
+    }
+  }
+
+  const result = await prisma.assignment.updateMany({ where, data });
+  return { handled: true, assignmentsUpdated: result.count };
+}
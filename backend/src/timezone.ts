@@ -0,0 +1,103 @@
+// Small helpers for working with IANA timezones using only the built-in Intl APIs.
+
+export interface ZonedParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  weekday: number; // 0 = Sunday ... 6 = Saturday
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let dtf = formatterCache.get(timeZone);
+  if (!dtf) {
+    dtf = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+      weekday: 'short',
+    });
+    formatterCache.set(timeZone, dtf);
+  }
+  return dtf;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Wall-clock parts of an instant as seen in the given timezone.
+export function getZonedParts(instant: Date, timeZone: string): ZonedParts {
+  const parts = getFormatter(timeZone).formatToParts(instant);
+  const num = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((p) => p.type === type)?.value ?? NaN);
+  const weekdayLabel = parts.find((p) => p.type === 'weekday')?.value ?? '';
+
+  return {
+    year: num('year'),
+    month: num('month'),
+    day: num('day'),
+    hour: num('hour'),
+    minute: num('minute'),
+    second: num('second'),
+    weekday: WEEKDAYS.indexOf(weekdayLabel),
+  };
+}
+
+// Offset of the timezone from UTC at the given instant, in milliseconds.
+function getOffsetMs(instant: Date, timeZone: string): number {
+  const p = getZonedParts(instant, timeZone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return asUtc - Math.floor(instant.getTime() / 1000) * 1000;
+}
+
+// Convert a wall-clock time in the given timezone to a UTC instant. `month` is 1-12.
+// Times skipped by a DST jump move forward by the length of the jump (02:30 becomes 03:30);
+// times that occur twice resolve to the first occurrence.
+export function zonedTimeToUtc(
+  year: number,
+  month: number,
+  day: number,
+  hour: number,
+  minute: number,
+  timeZone: string,
+): Date {
+  const guess = Date.UTC(year, month - 1, day, hour, minute, 0);
+  const firstOffset = getOffsetMs(new Date(guess), timeZone);
+  const result = guess - firstOffset;
+
+  // Re-check the offset at the candidate instant in case we crossed a DST boundary.
+  const secondOffset = getOffsetMs(new Date(result), timeZone);
+  if (secondOffset !== firstOffset) {
+    const adjusted = guess - secondOffset;
+    const adjustedParts = getZonedParts(new Date(adjusted), timeZone);
+    if (adjustedParts.hour === hour && adjustedParts.minute === minute) {
+      return new Date(adjusted);
+    }
+  }
+
+  return new Date(result);
+}
+
+// Calendar date of an instant as seen in the given timezone, returned in Tasklink's
+// date-only representation: midday UTC on that date, so it reads as the same day
+// from any viewer's timezone.
+export function toCalendarDate(instant: Date, timeZone: string): Date {
+  const p = getZonedParts(instant, timeZone);
+  return new Date(Date.UTC(p.year, p.month - 1, p.day, 12, 0, 0));
+}
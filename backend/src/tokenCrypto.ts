@@ -0,0 +1,118 @@
+import crypto from 'crypto';
+
+// Canvas and Todoist tokens are stored with envelope encryption: each token is
+// encrypted with its own random data key (AES-256-GCM), and that data key is wrapped
+// with a master key from TOKEN_ENCRYPTION_KEYS. Stored values look like
+//
+//   v1:<keyId>:<wrapped data key>:<encrypted token>
+//
+// where both payloads are base64url(iv | auth tag | ciphertext).
+//
+// TOKEN_ENCRYPTION_KEYS is a comma-separated list of `<keyId>:<base64 32-byte key>`.
+// The first key encrypts new values; the others are only used to decrypt values written
+// before a rotation (see src/scripts/rotateTokenEncryption.ts).
+
+const FORMAT_VERSION = 'v1';
+const ALGORITHM = 'aes-256-gcm';
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+const KEY_BYTES = 32;
+
+interface MasterKey {
+  id: string;
+  key: Buffer;
+}
+
+let cachedKeys: { raw: string; keys: MasterKey[] } | null = null;
+let warnedUnencrypted = false;
+
+function parseMasterKeys(raw: string): MasterKey[] {
+  return raw
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const separator = entry.indexOf(':');
+      const id = separator > 0 ? entry.slice(0, separator) : '';
+      const key = Buffer.from(entry.slice(separator + 1), 'base64');
+      if (!id || key.length !== KEY_BYTES) {
+        throw new Error(`TOKEN_ENCRYPTION_KEYS entries must look like "<keyId>:<base64 ${KEY_BYTES}-byte key>"`);
+      }
+      return { id, key };
+    });
+}
+
+function getMasterKeys(): MasterKey[] {
+  const raw = process.env.TOKEN_ENCRYPTION_KEYS ?? '';
+  if (!cachedKeys || cachedKeys.raw !== raw) {
+    cachedKeys = { raw, keys: parseMasterKeys(raw) };
+  }
+  return cachedKeys.keys;
+}
+
+// Id of the key new values are encrypted with, or null if encryption isn't configured.
+export function getActiveTokenKeyId(): string | null {
+  return getMasterKeys()[0]?.id ?? null;
+}
+
+export function isEncryptedToken(value: string): boolean {
+  return value.startsWith(`${FORMAT_VERSION}:`);
+}
+
+function seal(key: Buffer, plaintext: Buffer): string {
+  const iv = crypto.randomBytes(IV_BYTES);
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64url');
+}
+
+function unseal(key: Buffer, sealed: string): Buffer {
+  const data = Buffer.from(sealed, 'base64url');
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, data.subarray(0, IV_BYTES));
+  decipher.setAuthTag(data.subarray(IV_BYTES, IV_BYTES + TAG_BYTES));
+  return Buffer.concat([decipher.update(data.subarray(IV_BYTES + TAG_BYTES)), decipher.final()]);
+}
+
+// Encrypt a token for storage. Without TOKEN_ENCRYPTION_KEYS the token is stored as-is
+// (fine for local development, not for production).
+export function encryptToken(token: string): string {
+  const [active] = getMasterKeys();
+  if (!active) {
+    if (!warnedUnencrypted) {
+      // eslint-disable-next-line no-console
+      console.warn('TOKEN_ENCRYPTION_KEYS is not set; Canvas and Todoist tokens are stored unencrypted.');
+      warnedUnencrypted = true;
+    }
+    return token;
+  }
+
+  const dataKey = crypto.randomBytes(KEY_BYTES);
+  return [FORMAT_VERSION, active.id, seal(active.key, dataKey), seal(dataKey, Buffer.from(token, 'utf8'))].join(':');
+}
+
+// Decrypt a stored token. Values saved before encryption was enabled are returned unchanged.
+export function decryptToken(stored: string): string {
+  if (!isEncryptedToken(stored)) return stored;
+
+  const [, keyId, wrappedKey, payload] = stored.split(':');
+  const master = getMasterKeys().find((key) => key.id === keyId);
+  if (!master || !wrappedKey || !payload) {
+    throw new Error(`Cannot decrypt stored token: encryption key "${keyId}" is not configured`);
+  }
+
+  const dataKey = unseal(master.key, wrappedKey);
+  return unseal(dataKey, payload).toString('utf8');
+}
+
+export function encryptOptionalToken(token: string | null): string | null {
+  return token == null ? null : encryptToken(token);
+}
+
+export function decryptOptionalToken(stored: string | null): string | null {
+  return stored == null ? null : decryptToken(stored);
+}
+
+// Key id a stored value was encrypted with (null for unencrypted values).
+export function getTokenKeyId(stored: string): string | null {
+  return isEncryptedToken(stored) ? stored.split(':')[1] ?? null : null;
+}
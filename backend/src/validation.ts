@@ -0,0 +1,57 @@
+import type { Request, Response, NextFunction } from 'express';
+import type { ZodError, ZodTypeAny } from 'zod';
+
+export interface ValidationSchemas {
+  body?: ZodTypeAny;
+  query?: ZodTypeAny;
+  params?: ZodTypeAny;
+}
+
+export interface ValidationIssue {
+  location: keyof ValidationSchemas;
+  // Dotted path to the offending field, e.g. "prioritySettings.p1.to" ("" for the whole value).
+  path: string;
+  message: string;
+}
+
+function toIssues(location: keyof ValidationSchemas, error: ZodError): ValidationIssue[] {
+  return error.issues.map((issue) => ({
+    location,
+    path: issue.path.join('.'),
+    message: issue.message,
+  }));
+}
+
+// Validate (and coerce) the request against zod schemas before the handler runs. On
+// success req.body/query/params are replaced with the parsed values; on failure the
+// request is answered with 400:
+//
+//   { error: "courseIds: must be a non-empty array", issues: [{ location, path, message }] }
+export function validate(schemas: ValidationSchemas) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const issues: ValidationIssue[] = [];
+    const parsed: Partial<Record<keyof ValidationSchemas, unknown>> = {};
+
+    for (const location of ['params', 'query', 'body'] as const) {
+      const schema = schemas[location];
+      if (!schema) continue;
+      const result = schema.safeParse(req[location] ?? {});
+      if (result.success) {
+        parsed[location] = result.data;
+      } else {
+        issues.push(...toIssues(location, result.error));
+      }
+    }
+
+    if (issues.length > 0) {
+      const [first] = issues;
+      const error = first.path ? `${first.path}: ${first.message}` : first.message;
+      return res.status(400).json({ error, issues });
+    }
+
+    if ('params' in parsed) req.params = parsed.params as Request['params'];
+    if ('query' in parsed) req.query = parsed.query as Request['query'];
+    if ('body' in parsed) req.body = parsed.body;
+    return next();
+  };
+}
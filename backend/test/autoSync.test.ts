@@ -0,0 +1,119 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+// The database and the sync steps are hoisted so that two copies of the scheduler module
+// (two backend instances) share them.
+const { db, runSync } = await vi.hoisted(async () => {
+  const { createFakePrisma } = await import('./fakePrisma');
+  return { db: createFakePrisma(), runSync: vi.fn() };
+});
+
+vi.mock('../src/prisma', () => ({ prisma: db }));
+vi.mock('../src/services/canvasService', () => ({
+  // A run takes a while, so the instances' timers fire while it is in progress.
+  fetchAndStoreUpcomingAssignments: async (userId: string) => {
+    runSync(userId);
+    await new Promise((resolve) => setTimeout(resolve, 30 * 1000));
+    return { courseIds: [] };
+  },
+}));
+vi.mock('../src/services/todoistService', () => ({ syncAssignmentsToTodoist: vi.fn() }));
+vi.mock('../src/services/todoistProjectService', () => ({ autoProvisionTodoistProjects: vi.fn() }));
+
+const MINUTE = 60 * 1000;
+
+const loadScheduler = () => import('../src/services/autoSyncService');
+
+describe('auto-sync scheduler', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ now: new Date('2026-10-19T15:00:00Z') });
+    vi.resetModules();
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    runSync.mockClear();
+    db.$reset();
+    db.$seed('user', {
+      id: 'user-1',
+      autoSyncIntervalMinutes: 60,
+      autoSyncNextRunAt: new Date(Date.now() - MINUTE),
+    });
+  });
+
+  afterEach(() => {
+    vi.clearAllTimers();
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('runs a due sync once when several instances have a timer for it', async () => {
+    const first = await loadScheduler();
+    vi.resetModules();
+    const second = await loadScheduler();
+    expect(second).not.toBe(first);
+
+    await first.startAutoSyncScheduler();
+    await second.startAutoSyncScheduler();
+    await vi.advanceTimersByTimeAsync(MINUTE);
+
+    expect(runSync).toHaveBeenCalledTimes(1);
+    const user = await db.user.findUnique({ where: { id: 'user-1' } });
+    expect(user?.autoSyncNextRunAt).toEqual(new Date('2026-10-19T16:00:00Z'));
+
+    // Both instances follow the claimed schedule to the next run, which again runs once.
+    await vi.advanceTimersByTimeAsync(60 * MINUTE);
+    expect(runSync).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('computeNextRunAt', () => {
+  // Monday 2026-10-19, 08:00 in Los Angeles (PDT, UTC-7).
+  const mondayMorning = new Date('2026-10-19T15:00:00Z');
+  const weekly = (days: number[], time: string) =>
+    ({ kind: 'weekly', days, time, timezone: 'America/Los_Angeles' }) as const;
+
+  it('adds the interval to the start time', async () => {
+    const { computeNextRunAt } = await loadScheduler();
+
+    expect(computeNextRunAt({ kind: 'interval', intervalMinutes: 90 }, mondayMorning)).toEqual(
+      new Date('2026-10-19T16:30:00Z'),
+    );
+  });
+
+  it("runs later today when today's time is still ahead", async () => {
+    const { computeNextRunAt } = await loadScheduler();
+
+    expect(computeNextRunAt(weekly([1], '17:00'), mondayMorning)).toEqual(new Date('2026-10-20T00:00:00Z'));
+  });
+
+  it('picks the earliest of several weekdays', async () => {
+    const { computeNextRunAt } = await loadScheduler();
+
+    // Friday 17:00 and Tuesday 07:00 are both listed; Tuesday comes first.
+    expect(computeNextRunAt(weekly([5, 2], '07:00'), mondayMorning)).toEqual(new Date('2026-10-20T14:00:00Z'));
+    expect(computeNextRunAt(weekly([5], '17:00'), mondayMorning)).toEqual(new Date('2026-10-24T00:00:00Z'));
+  });
+
+  it('is strictly after the start time, so a run at the scheduled minute moves a week ahead', async () => {
+    const { computeNextRunAt } = await loadScheduler();
+
+    expect(computeNextRunAt(weekly([1], '17:00'), new Date('2026-10-20T00:00:00Z'))).toEqual(
+      new Date('2026-10-27T00:00:00Z'),
+    );
+  });
+
+  it("uses the schedule's calendar, not UTC's", async () => {
+    const { computeNextRunAt } = await loadScheduler();
+
+    // 05:00 UTC on Tuesday is still Monday evening in Los Angeles.
+    expect(computeNextRunAt(weekly([2], '07:00'), new Date('2026-10-20T05:00:00Z'))).toEqual(
+      new Date('2026-10-20T14:00:00Z'),
+    );
+  });
+
+  it('keeps the local time across a daylight saving change', async () => {
+    const { computeNextRunAt } = await loadScheduler();
+
+    // Clocks go back on 2026-11-01, so 17:00 on Monday 2026-11-02 is UTC-8.
+    expect(computeNextRunAt(weekly([1], '17:00'), new Date('2026-10-30T12:00:00Z'))).toEqual(
+      new Date('2026-11-03T01:00:00Z'),
+    );
+  });
+});
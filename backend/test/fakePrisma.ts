@@ -0,0 +1,237 @@
+import crypto from 'crypto';
+
+// In-memory stand-in for the parts of PrismaClient that the routes under test use, so
+// the API can be exercised without a database. Every model is a plain array of rows.
+// Query shapes it doesn't understand throw, so a test hits a 500 instead of passing
+// by accident.
+
+type Row = Record<string, unknown>;
+type Where = Record<string, unknown>;
+
+interface QueryArgs {
+  where?: Where;
+  data?: Row;
+  create?: Row;
+  update?: Row;
+  include?: Record<string, unknown>;
+}
+
+interface Relation {
+  model: string;
+  foreignKey: string;
+  // The foreign key sits on the related model (e.g. TodoistAccount.userId for user.todoistAccount).
+  inverse?: boolean;
+}
+
+// Relations the code under test filters or includes through.
+const TO_ONE: Record<string, Record<string, Relation>> = {
+  assignment: { course: { model: 'course', foreignKey: 'courseId' } },
+  course: { user: { model: 'user', foreignKey: 'userId' } },
+  user: {
+    canvasAccount: { model: 'canvasAccount', foreignKey: 'userId', inverse: true },
+    todoistAccount: { model: 'todoistAccount', foreignKey: 'userId', inverse: true },
+  },
+};
+const TO_MANY: Record<string, Record<string, Relation>> = {
+  syncRun: { items: { model: 'syncRunItem', foreignKey: 'syncRunId' } },
+};
+
+// Column defaults from schema.prisma that the code under test relies on (ids and
+// createdAt/updatedAt are filled in for every model).
+const DEFAULTS: Record<string, () => Row> = {
+  user: () => ({
+    closeSubmittedTasks: true,
+    reopenResubmitTasks: false,
+    dueDateConflictPolicy: 'CANVAS_WINS',
+    priorityConflictPolicy: 'CANVAS_WINS',
+    useDueTime: false,
+    autoProvisionProjects: false,
+    projectNameTemplate: '{course}',
+  }),
+  course: () => ({ todoistProjectOptOut: false }),
+  assignment: () => ({ itemType: 'assignment' }),
+  syncRun: () => ({ kind: 'TODOIST_SYNC', startedAt: new Date(), retryCount: 0 }),
+  session: () => ({ lastSeenAt: new Date() }),
+  rateLimitBucket: () => ({ count: 0, windowStart: new Date() }),
+  loginThrottle: () => ({ failures: 0, lastFailureAt: new Date() }),
+};
+
+const OPERATORS = new Set(['equals', 'in', 'notIn', 'not', 'lt', 'lte', 'gt', 'gte']);
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !(value instanceof Date) && !Array.isArray(value);
+
+// Columns never written read back as null, as optional columns do in Prisma.
+const comparable = (value: unknown) => (value instanceof Date ? value.getTime() : (value ?? null));
+
+function matchesValue(value: unknown, condition: unknown): boolean {
+  if (!isPlainObject(condition)) return comparable(value) === comparable(condition);
+
+  return Object.entries(condition).every(([op, operand]) => {
+    if (!OPERATORS.has(op)) throw new Error(`fakePrisma: unsupported filter operator "${op}"`);
+    const v = comparable(value);
+    const o = comparable(operand);
+    switch (op) {
+      case 'equals':
+        return v === o;
+      case 'in':
+        return (operand as unknown[]).map(comparable).includes(v);
+      case 'notIn':
+        return !(operand as unknown[]).map(comparable).includes(v);
+      case 'not':
+        return !matchesValue(value, operand);
+      case 'lt':
+        return v !== null && v !== undefined && (v as number) < (o as number);
+      case 'lte':
+        return v !== null && v !== undefined && (v as number) <= (o as number);
+      case 'gt':
+        return v !== null && v !== undefined && (v as number) > (o as number);
+      default:
+        return v !== null && v !== undefined && (v as number) >= (o as number);
+    }
+  });
+}
+
+function applyUpdate(row: Row, data: Row): void {
+  for (const [key, value] of Object.entries(data)) {
+    if (isPlainObject(value)) {
+      if (typeof value.increment !== 'number') throw new Error(`fakePrisma: unsupported update of "${key}"`);
+      row[key] = ((row[key] as number) ?? 0) + value.increment;
+    } else if (value !== undefined) {
+      row[key] = value;
+    }
+  }
+  if ('updatedAt' in row) row.updatedAt = new Date();
+}
+
+export function createFakePrisma() {
+  let tables: Record<string, Row[]> = {};
+
+  const table = (model: string) => (tables[model] ??= []);
+
+  const findRelated = (relation: Relation, row: Row) =>
+    relation.inverse
+      ? table(relation.model).find((r) => r[relation.foreignKey] === row.id)
+      : table(relation.model).find((r) => r.id === row[relation.foreignKey]);
+
+  const matches = (model: string, row: Row, where: Where = {}): boolean =>
+    Object.entries(where).every(([key, condition]) => {
+      if (condition === undefined) return true;
+      if (key === 'OR') return (condition as Where[]).some((w) => matches(model, row, w));
+      if (key === 'AND') return (condition as Where[]).every((w) => matches(model, row, w));
+      if (key === 'NOT') return !matches(model, row, condition as Where);
+
+      const relation = TO_ONE[model]?.[key];
+      if (relation) {
+        const related = findRelated(relation, row);
+        return !!related && matches(relation.model, related, condition as Where);
+      }
+      return matchesValue(row[key], condition);
+    });
+
+  const output = (model: string, row: Row, include?: Record<string, unknown>): Row => {
+    const copy = structuredClone(row);
+    for (const key of Object.keys(include ?? {})) {
+      const toMany = TO_MANY[model]?.[key];
+      const toOne = TO_ONE[model]?.[key];
+      if (toMany) {
+        copy[key] = table(toMany.model)
+          .filter((r) => r[toMany.foreignKey] === row.id)
+          .map((r) => structuredClone(r));
+      } else if (toOne) {
+        const related = findRelated(toOne, row);
+        copy[key] = related ? structuredClone(related) : null;
+      } else {
+        throw new Error(`fakePrisma: unsupported include "${model}.${key}"`);
+      }
+    }
+    return copy;
+  };
+
+  const insert = (model: string, data: Row): Row => {
+    const now = new Date();
+    const row: Row = {
+      id: crypto.randomUUID(),
+      createdAt: now,
+      updatedAt: now,
+      ...DEFAULTS[model]?.(),
+      ...structuredClone(data),
+    };
+    table(model).push(row);
+    return row;
+  };
+
+  const delegate = (model: string) => {
+    const find = ({ where }: QueryArgs = {}) => table(model).filter((row) => matches(model, row, where));
+    const findOne = (args: QueryArgs = {}) => {
+      const row = find(args)[0];
+      return row ? output(model, row, args.include) : null;
+    };
+
+    return {
+      findUnique: async (args: QueryArgs) => findOne(args),
+      findFirst: async (args: QueryArgs = {}) => findOne(args),
+      findUniqueOrThrow: async (args: QueryArgs) => {
+        const row = findOne(args);
+        if (!row) throw new Error(`fakePrisma: no ${model} found`);
+        return row;
+      },
+      findMany: async (args: QueryArgs = {}) => find(args).map((row) => output(model, row, args.include)),
+      count: async (args: QueryArgs = {}) => find(args).length,
+      create: async ({ data = {} }: QueryArgs) => output(model, insert(model, data)),
+      createMany: async ({ data = [] }: { data?: Row[] }) => {
+        data.forEach((row) => insert(model, row));
+        return { count: data.length };
+      },
+      update: async ({ where, data = {} }: QueryArgs) => {
+        const row = find({ where })[0];
+        if (!row) throw new Error(`fakePrisma: no ${model} to update`);
+        applyUpdate(row, data);
+        return output(model, row);
+      },
+      updateMany: async ({ where, data = {} }: QueryArgs) => {
+        const rows = find({ where });
+        rows.forEach((row) => applyUpdate(row, data));
+        return { count: rows.length };
+      },
+      upsert: async ({ where, create = {}, update = {} }: QueryArgs) => {
+        const row = find({ where })[0];
+        if (!row) return output(model, insert(model, create));
+        applyUpdate(row, update);
+        return output(model, row);
+      },
+      deleteMany: async ({ where }: QueryArgs = {}) => {
+        const keep = table(model).filter((row) => !matches(model, row, where));
+        const count = table(model).length - keep.length;
+        tables[model] = keep;
+        return { count };
+      },
+    };
+  };
+
+  const helpers = {
+    // Drop every row.
+    $reset() {
+      tables = {};
+    },
+    // Insert a row as-is (ids, timestamps and all) and return it.
+    $seed(model: string, row: Row) {
+      return insert(model, row);
+    },
+    // Deep copy of every table, for checking that a request changed nothing.
+    $snapshot() {
+      return structuredClone(tables);
+    },
+  };
+
+  return new Proxy(helpers, {
+    get(target, prop) {
+      if (typeof prop !== 'string') return undefined;
+      if (prop in target) return target[prop as keyof typeof helpers];
+      if (prop.startsWith('$')) throw new Error(`fakePrisma: ${prop} is not supported`);
+      return delegate(prop);
+    },
+  }) as typeof helpers & Record<string, ReturnType<typeof delegate>>;
+}
+
+export type FakePrisma = ReturnType<typeof createFakePrisma>;
@@ -0,0 +1,49 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+// getMailTransport caches the transport it picks, so each test loads a fresh module.
+const loadMailService = () => import('../src/services/mailService');
+
+describe('mail transport', () => {
+  beforeEach(() => {
+    vi.resetModules();
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it('refuses to fall back to the console transport in production', async () => {
+    vi.stubEnv('NODE_ENV', 'production');
+    vi.stubEnv('MAIL_TRANSPORT', '');
+    const { getMailTransport } = await loadMailService();
+
+    expect(() => getMailTransport()).toThrow('MAIL_TRANSPORT must be set in production');
+  });
+
+  it('uses the console transport in production when chosen explicitly', async () => {
+    vi.stubEnv('NODE_ENV', 'production');
+    vi.stubEnv('MAIL_TRANSPORT', 'console');
+    const { getMailTransport } = await loadMailService();
+
+    expect(() => getMailTransport()).not.toThrow();
+  });
+
+  it('logs only the recipient and subject to the console', async () => {
+    vi.stubEnv('NODE_ENV', 'development');
+    vi.stubEnv('MAIL_TRANSPORT', '');
+    const log = vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    const { sendMail } = await loadMailService();
+
+    await sendMail({
+      to: 'student@example.com',
+      subject: 'Reset your Tasklink password',
+      text: 'https://tasklink.example.com/reset-password?token=secret-reset-token',
+    });
+
+    const output = log.mock.calls.flat().join('\n');
+    expect(output).toContain('student@example.com');
+    expect(output).toContain('Reset your Tasklink password');
+    expect(output).not.toContain('secret-reset-token');
+  });
+});
@@ -0,0 +1,147 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+// Cross-user access: user B sends user A's ids to every route that takes a course,
+// assignment, sync run or session id. Each must answer 404, exactly like a missing id,
+// and leave A's data untouched.
+
+vi.mock('../src/prisma', async () => {
+  const { createFakePrisma } = await import('./fakePrisma');
+  return { prisma: createFakePrisma() };
+});
+
+import { prisma } from '../src/prisma';
+import type { FakePrisma } from './fakePrisma';
+import { send, signIn, type SignedIn } from './session';
+
+const db = prisma as unknown as FakePrisma;
+
+describe('cross-user access', () => {
+  let alice: SignedIn;
+  let bob: SignedIn;
+
+  beforeEach(async () => {
+    db.$reset();
+    for (const id of ['user-a', 'user-b']) {
+      db.$seed('user', { id, email: `${id}@example.com`, emailVerifiedAt: new Date() });
+    }
+    db.$seed('course', {
+      id: 'course-a',
+      userId: 'user-a',
+      canvasCourseId: '101',
+      name: 'Biology',
+      todoistProjectId: 'project-a',
+      useDueTime: null,
+    });
+    db.$seed('course', {
+      id: 'course-b',
+      userId: 'user-b',
+      canvasCourseId: '202',
+      name: 'History',
+      todoistProjectId: 'project-b',
+      useDueTime: null,
+    });
+    db.$seed('assignment', { id: 'assignment-a', courseId: 'course-a', name: 'Lab report' });
+    db.$seed('syncRun', { id: 'run-a', userId: 'user-a', kind: 'TODOIST_SYNC', status: 'SUCCESS', retryCount: 0 });
+    db.$seed('syncRunItem', { id: 'item-a', syncRunId: 'run-a', action: 'CREATED', assignmentName: 'Lab report' });
+
+    alice = await signIn('user-a');
+    bob = await signIn('user-b');
+  });
+
+  const crossUserRequests: Array<{
+    name: string;
+    method: 'get' | 'post' | 'delete';
+    path: () => string;
+    body?: object;
+    error: string;
+  }> = [
+    {
+      name: 'map-project with a foreign course',
+      method: 'post',
+      path: () => '/api/courses/map-project',
+      body: { courseId: 'course-a', todoistProjectId: 'project-b' },
+      error: 'Course not found',
+    },
+    {
+      name: 'due-time with a foreign course',
+      method: 'post',
+      path: () => '/api/courses/due-time',
+      body: { courseId: 'course-a', useDueTime: true },
+      error: 'Course not found',
+    },
+    {
+      name: 'provision-projects with a foreign course',
+      method: 'post',
+      path: () => '/api/courses/provision-projects',
+      body: { courseIds: ['course-a'] },
+      error: 'Course not found',
+    },
+    {
+      name: 'sync-assignments with a foreign course among its own',
+      method: 'post',
+      path: () => '/api/todoist/sync-assignments',
+      body: { courseIds: ['course-b', 'course-a'] },
+      error: 'Course not found',
+    },
+    {
+      name: 'sync-assignments with a foreign assignment',
+      method: 'post',
+      path: () => '/api/todoist/sync-assignments',
+      body: { courseIds: ['course-b'], assignmentIds: ['assignment-a'] },
+      error: 'Assignment not found',
+    },
+    {
+      name: 'sync preview with a foreign course',
+      method: 'post',
+      path: () => '/api/todoist/sync-assignments/preview',
+      body: { courseIds: ['course-a'] },
+      error: 'Course not found',
+    },
+    {
+      name: 'sync run details of a foreign run',
+      method: 'get',
+      path: () => '/api/sync-runs/run-a',
+      error: 'Sync run not found',
+    },
+    {
+      name: "revoking another user's session",
+      method: 'delete',
+      path: () => `/api/sessions/${alice.sessionId}`,
+      error: 'Session not found',
+    },
+  ];
+
+  it.each(crossUserRequests)('$name answers 404 and changes nothing', async ({ method, path, body, error }) => {
+    const before = db.$snapshot();
+
+    const res = await send(bob, method, path(), body);
+
+    expect(res.status).toBe(404);
+    expect(res.body).toEqual({ error });
+    expect(db.$snapshot()).toEqual(before);
+  });
+
+  it('answers 404 for ids that do not exist at all', async () => {
+    const res = await send(bob, 'get', '/api/sync-runs/no-such-run');
+
+    expect(res.status).toBe(404);
+    expect(res.body).toEqual({ error: 'Sync run not found' });
+  });
+
+  // The same requests from the owner get through, so the 404s above come from the
+  // ownership checks and not from a broken session.
+  it("lets the owner read their own sync run", async () => {
+    const res = await send(alice, 'get', '/api/sync-runs/run-a');
+
+    expect(res.status).toBe(200);
+    expect(res.body.run.id).toBe('run-a');
+    expect(res.body.items).toHaveLength(1);
+  });
+
+  it("lets the owner change their own course", async () => {
+    const res = await send(alice, 'post', '/api/courses/due-time', { courseId: 'course-a', useDueTime: true });
+
+    expect(res.status).toBe(200);
+    expect((await db.course.findUnique({ where: { id: 'course-a' } }))?.useDueTime).toBe(true);
+  });
+});
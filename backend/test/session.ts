@@ -0,0 +1,31 @@
+import type { Request, Response } from 'express';
+import request from 'supertest';
+import { setSessionCookie } from '../src/auth';
+import { prisma } from '../src/prisma';
+import { app } from '../src/server';
+
+export interface SignedIn {
+  cookie: string;
+  csrfToken: string;
+  sessionId: string;
+}
+
+// Start a session the way the login routes do and capture its cookie. Needs the user row.
+export async function signIn(userId: string): Promise<SignedIn> {
+  let cookie = '';
+  const req = { get: () => 'vitest', ip: '127.0.0.1' } as unknown as Request;
+  const res = {
+    cookie: (name: string, value: string) => {
+      cookie = `${name}=${value}`;
+    },
+  } as unknown as Response;
+  const csrfToken = await setSessionCookie(req, res, { userId, email: `${userId}@example.com` });
+  const sessions = await prisma.session.findMany({ where: { userId } });
+  return { cookie, csrfToken, sessionId: sessions[sessions.length - 1].id };
+}
+
+// A request to the app as a signed-in user, with the CSRF header state-changing routes need.
+export function send(as: SignedIn, method: 'get' | 'post' | 'delete', path: string, body?: object) {
+  const req = request(app)[method](path).set('Cookie', as.cookie).set('X-CSRF-Token', as.csrfToken);
+  return body ? req.send(body) : req;
+}
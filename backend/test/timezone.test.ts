@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { getZonedParts, isValidTimeZone, toCalendarDate, zonedTimeToUtc } from '../src/timezone';
+
+describe('timezone helpers', () => {
+  it('recognizes IANA timezones', () => {
+    expect(isValidTimeZone('America/Los_Angeles')).toBe(true);
+    expect(isValidTimeZone('UTC')).toBe(true);
+    expect(isValidTimeZone('Mars/Olympus_Mons')).toBe(false);
+  });
+
+  it('reads wall-clock parts and the weekday in a timezone', () => {
+    expect(getZonedParts(new Date('2026-10-19T15:30:00Z'), 'Europe/Berlin')).toEqual({
+      year: 2026,
+      month: 10,
+      day: 19,
+      hour: 17,
+      minute: 30,
+      second: 0,
+      weekday: 1,
+    });
+  });
+
+  describe('zonedTimeToUtc', () => {
+    it('converts wall-clock times with whole and fractional-hour offsets', () => {
+      expect(zonedTimeToUtc(2026, 10, 19, 23, 59, 'America/Los_Angeles')).toEqual(new Date('2026-10-20T06:59:00Z'));
+      expect(zonedTimeToUtc(2026, 1, 19, 23, 59, 'America/Los_Angeles')).toEqual(new Date('2026-01-20T07:59:00Z'));
+      expect(zonedTimeToUtc(2026, 10, 19, 9, 0, 'Asia/Kolkata')).toEqual(new Date('2026-10-19T03:30:00Z'));
+    });
+
+    it('moves a time skipped by the spring-forward jump forward by the jump', () => {
+      // 02:00-03:00 doesn't exist in New York on 2026-03-08.
+      expect(zonedTimeToUtc(2026, 3, 8, 2, 30, 'America/New_York')).toEqual(new Date('2026-03-08T07:30:00Z'));
+      expect(zonedTimeToUtc(2026, 3, 8, 3, 0, 'America/New_York')).toEqual(new Date('2026-03-08T07:00:00Z'));
+    });
+
+    it('picks the first of two occurrences on the fall-back night', () => {
+      // 01:30 happens twice in New York on 2026-11-01: first in EDT (UTC-4), then in EST.
+      expect(zonedTimeToUtc(2026, 11, 1, 1, 30, 'America/New_York')).toEqual(new Date('2026-11-01T05:30:00Z'));
+    });
+  });
+
+  describe('toCalendarDate', () => {
+    it('returns the local calendar date as midday UTC', () => {
+      // 23:59 Pacific is already the next day in UTC.
+      expect(toCalendarDate(new Date('2026-10-20T06:59:00Z'), 'America/Los_Angeles')).toEqual(
+        new Date('2026-10-19T12:00:00Z'),
+      );
+      // ...and 20:00 UTC is already the next day in New Zealand.
+      expect(toCalendarDate(new Date('2026-10-19T20:00:00Z'), 'Pacific/Auckland')).toEqual(
+        new Date('2026-10-20T12:00:00Z'),
+      );
+    });
+  });
+});
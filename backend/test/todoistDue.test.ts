@@ -0,0 +1,54 @@
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('../src/prisma', () => ({ prisma: {} }));
+
+import { parseTodoistDue } from '../src/services/todoistService';
+
+// Monday 2026-10-19 in the midday-UTC form due dates are stored in.
+const october19 = new Date('2026-10-19T12:00:00Z');
+const losAngeles = 'America/Los_Angeles';
+
+describe('parseTodoistDue', () => {
+  it('reads a date-only due as that calendar date with no time', () => {
+    expect(parseTodoistDue('2026-10-19', losAngeles)).toEqual({ date: october19, time: null });
+  });
+
+  it("takes a fixed UTC time's date in the Canvas timezone", () => {
+    // 06:59 UTC on the 20th is 23:59 on the 19th in Los Angeles.
+    expect(parseTodoistDue('2026-10-20T06:59:00Z', losAngeles)).toEqual({
+      date: october19,
+      time: new Date('2026-10-20T06:59:00Z'),
+    });
+    expect(parseTodoistDue('2026-10-20T06:59:00.000Z', losAngeles).time).toEqual(new Date('2026-10-20T06:59:00Z'));
+  });
+
+  it('honours an explicit offset', () => {
+    expect(parseTodoistDue('2026-10-19T23:59:00+02:00', losAngeles)).toEqual({
+      date: october19,
+      time: new Date('2026-10-19T21:59:00Z'),
+    });
+  });
+
+  it('reads a floating time in the Canvas timezone', () => {
+    expect(parseTodoistDue('2026-10-19T23:59:00', losAngeles)).toEqual({
+      date: october19,
+      time: new Date('2026-10-20T06:59:00Z'),
+    });
+    expect(parseTodoistDue('2026-10-19T23:59:00', 'Europe/Berlin')).toEqual({
+      date: october19,
+      time: new Date('2026-10-19T21:59:00Z'),
+    });
+  });
+
+  it('treats a missing due as no date', () => {
+    expect(parseTodoistDue(null, losAngeles)).toEqual({ date: null, time: null });
+    expect(parseTodoistDue(undefined, losAngeles)).toEqual({ date: null, time: null });
+    expect(parseTodoistDue('', losAngeles)).toEqual({ date: null, time: null });
+  });
+
+  it('ignores a time it cannot read but keeps the date', () => {
+    expect(parseTodoistDue('2026-10-19T25:00:00Z', losAngeles)).toEqual({ date: october19, time: null });
+    expect(parseTodoistDue('2026-10-19 every monday', losAngeles)).toEqual({ date: october19, time: null });
+    expect(parseTodoistDue('next monday', losAngeles)).toEqual({ date: null, time: null });
+  });
+});
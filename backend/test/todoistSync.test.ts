@@ -0,0 +1,325 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+// Todoist sync against an in-memory database and a fake Todoist: the REST task list and
+// the Sync API are served from `todoist.tasks`, which the sent commands update.
+
+vi.mock('../src/prisma', async () => {
+  const { createFakePrisma } = await import('./fakePrisma');
+  return { prisma: createFakePrisma() };
+});
+
+vi.mock('../src/httpClient', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../src/httpClient')>()),
+  http: { get: vi.fn(), post: vi.fn(), delete: vi.fn() },
+}));
+
+import { http } from '../src/httpClient';
+import { prisma } from '../src/prisma';
+import { handleTodoistWebhookEvent } from '../src/services/todoistWebhookService';
+import { previewTodoistSync, syncAssignmentsToTodoist } from '../src/services/todoistService';
+import type { TodoistCommand } from '../src/services/todoistSyncApi';
+import type { FakePrisma } from './fakePrisma';
+import { send, signIn, type SignedIn } from './session';
+
+const db = prisma as unknown as FakePrisma;
+
+interface FakeTask {
+  id: string;
+  content: string;
+  project_id: string;
+  priority: number;
+  labels: string[];
+  due: { date: string } | null;
+  checked: boolean;
+}
+
+const todoist = {
+  tasks: new Map<string, FakeTask>(),
+  // Every command received through the Sync API, in order.
+  commands: [] as TodoistCommand[],
+};
+
+// Apply one command; returns the id of a created task.
+function applyCommand(command: TodoistCommand): string | null {
+  const task = todoist.tasks.get(String(command.args.id));
+  switch (command.type) {
+    case 'item_add': {
+      const id = `task-${todoist.tasks.size + 1}`;
+      todoist.tasks.set(id, {
+        id,
+        content: String(command.args.content),
+        project_id: String(command.args.project_id),
+        priority: Number(command.args.priority ?? 1),
+        labels: (command.args.labels as string[] | undefined) ?? [],
+        due: (command.args.due as { date: string } | undefined) ?? null,
+        checked: false,
+      });
+      return id;
+    }
+    case 'item_close':
+      if (task) task.checked = true;
+      break;
+    case 'item_uncomplete':
+      if (task) task.checked = false;
+      break;
+    case 'item_update':
+      if (task) Object.assign(task, command.args);
+      break;
+    default:
+      throw new Error(`fake Todoist: unexpected ${command.type}`);
+  }
+  return null;
+}
+
+vi.mocked(http.get).mockImplementation(async (url, config) => {
+  if (!url.endsWith('/tasks')) throw new Error(`fake Todoist: unexpected GET ${url}`);
+  const projectId = (config?.params as { project_id?: string } | undefined)?.project_id;
+  // Like the real API, the task list only has open tasks.
+  const results = Array.from(todoist.tasks.values()).filter((t) => !t.checked && t.project_id === projectId);
+  return { data: { results, next_cursor: null } } as never;
+});
+
+vi.mocked(http.post).mockImplementation(async (_url, body) => {
+  const commands = JSON.parse(new URLSearchParams(String(body)).get('commands') ?? '[]') as TodoistCommand[];
+  const tempIdMapping: Record<string, string> = {};
+  for (const command of commands) {
+    const createdId = applyCommand(command);
+    if (createdId && command.temp_id) tempIdMapping[command.temp_id] = createdId;
+  }
+  todoist.commands.push(...commands);
+  return {
+    data: {
+      sync_status: Object.fromEntries(commands.map((c) => [c.uuid, 'ok'])),
+      temp_id_mapping: tempIdMapping,
+    },
+  } as never;
+});
+
+const commandTypes = () => todoist.commands.map((c) => c.type);
+
+// Midday UTC `days` from now, the form due dates are stored in.
+const dueInDays = (days: number) => {
+  const date = new Date(Date.now() + days * 24 * 60 * 60 * 1000);
+  date.setUTCHours(12, 0, 0, 0);
+  return date;
+};
+
+// The same day as Todoist writes it in `due.date`.
+const todoistDateInDays = (days: number) => dueInDays(days).toISOString().slice(0, 10);
+
+beforeEach(() => {
+  db.$reset();
+  todoist.tasks.clear();
+  todoist.commands = [];
+
+  db.$seed('user', { id: 'user-1', email: 'student@example.com', todoistUserId: 'todoist-user-1' });
+  db.$seed('todoistAccount', { userId: 'user-1', accessToken: 'todoist-token' });
+  db.$seed('course', { id: 'course-1', userId: 'user-1', canvasCourseId: '101', todoistProjectId: 'project-1' });
+});
+
+describe('closing tasks for submitted assignments', () => {
+  beforeEach(() => {
+    todoist.tasks.set('task-1', {
+      id: 'task-1',
+      content: 'Lab report',
+      project_id: 'project-1',
+      priority: 1,
+      labels: [],
+      due: { date: '2099-03-10' },
+      checked: false,
+    });
+    db.$seed('assignment', {
+      id: 'assignment-1',
+      courseId: 'course-1',
+      canvasAssignmentId: '9001',
+      name: 'Lab report',
+      dueDate: new Date('2099-03-10T12:00:00Z'),
+      submissionState: 'submitted',
+      todoistTaskId: 'task-1',
+      lastPushedDueDate: '2099-03-10',
+      lastPushedPriority: 1,
+    });
+  });
+
+  it('closes the task once', async () => {
+    const result = await syncAssignmentsToTodoist('user-1', ['course-1']);
+
+    expect(result.closed).toBe(1);
+    expect(commandTypes()).toEqual(['item_close']);
+    expect(todoist.tasks.get('task-1')?.checked).toBe(true);
+  });
+
+  it('leaves a task the user reopened in Todoist open on later syncs', async () => {
+    await syncAssignmentsToTodoist('user-1', ['course-1']);
+
+    // The user reopens the task; Todoist reports it through the webhook.
+    todoist.tasks.get('task-1')!.checked = false;
+    await handleTodoistWebhookEvent({
+      event_name: 'item:uncompleted',
+      user_id: 'todoist-user-1',
+      event_data: { id: 'task-1' },
+    });
+
+    const [planned] = await previewTodoistSync('user-1', ['course-1']);
+    expect(planned).toMatchObject({ action: 'SKIP', reason: 'Reopened in Todoist after Tasklink closed it' });
+
+    const result = await syncAssignmentsToTodoist('user-1', ['course-1']);
+    expect(result.closed).toBe(0);
+    expect(commandTypes()).toEqual(['item_close']);
+    expect(todoist.tasks.get('task-1')?.checked).toBe(false);
+  });
+});
+
+describe('preview and sync', () => {
+  let student: SignedIn;
+
+  beforeEach(async () => {
+    db.$seed('assignment', {
+      id: 'soon',
+      courseId: 'course-1',
+      canvasAssignmentId: '1',
+      name: 'Problem set 1',
+      dueDate: dueInDays(3),
+    });
+    db.$seed('assignment', {
+      id: 'later',
+      courseId: 'course-1',
+      canvasAssignmentId: '2',
+      name: 'Final project',
+      dueDate: dueInDays(60),
+    });
+    student = await signIn('user-1');
+  });
+
+  const body = { courseIds: ['course-1'], detectionSettings: { daysAhead: 7 } };
+
+  it('plans with the same detection settings as the sync', async () => {
+    const preview = await send(student, 'post', '/api/todoist/sync-assignments/preview', body);
+
+    expect(preview.status).toBe(200);
+    const actions = Object.fromEntries(
+      (preview.body.changes as Array<{ assignmentId: string; action: string }>).map((c) => [c.assignmentId, c.action]),
+    );
+    expect(actions).toEqual({ soon: 'CREATE', later: 'SKIP' });
+
+    const sync = await send(student, 'post', '/api/todoist/sync-assignments', body);
+
+    expect(sync.status).toBe(200);
+    expect(sync.body).toMatchObject({ created: 1, skipped: 1 });
+    expect(Array.from(todoist.tasks.values(), (t) => t.content)).toEqual(['Problem set 1']);
+  });
+
+  it("doesn't count previews against the sync rate limit", async () => {
+    for (let i = 0; i < 12; i += 1) {
+      expect((await send(student, 'post', '/api/todoist/sync-assignments/preview', body)).status).toBe(200);
+    }
+
+    const sync = await send(student, 'post', '/api/todoist/sync-assignments', body);
+    expect(sync.status).toBe(200);
+  });
+});
+
+describe('conflict policies for tasks edited in Todoist', () => {
+  let canvasPriority: number;
+
+  beforeEach(async () => {
+    db.$seed('assignment', {
+      id: 'assignment-1',
+      courseId: 'course-1',
+      canvasAssignmentId: '1',
+      name: 'Essay',
+      dueDate: dueInDays(3),
+    });
+    await syncAssignmentsToTodoist('user-1', ['course-1']);
+    canvasPriority = todoist.tasks.get('task-1')!.priority;
+    todoist.commands = [];
+    // Room to edit the priority both ways.
+    expect(canvasPriority).toBeGreaterThan(1);
+    expect(canvasPriority).toBeLessThan(4);
+  });
+
+  const setPolicies = (dueDateConflictPolicy: string, priorityConflictPolicy: string) =>
+    db.user.update({ where: { id: 'user-1' }, data: { dueDateConflictPolicy, priorityConflictPolicy } });
+
+  // The user edits the task in Todoist.
+  const editTask = (dueInDaysFromNow: number, priority: number) => {
+    Object.assign(todoist.tasks.get('task-1')!, { due: { date: todoistDateInDays(dueInDaysFromNow) }, priority });
+  };
+
+  const plan = async () => (await previewTodoistSync('user-1', ['course-1']))[0];
+
+  it("leaves a task the user hasn't edited alone under every policy", async () => {
+    for (const policy of ['CANVAS_WINS', 'TODOIST_WINS', 'ONLY_EARLIER']) {
+      await setPolicies(policy, policy);
+
+      expect(await plan()).toMatchObject({ action: 'UPDATE', upToDate: true, conflict: null });
+    }
+  });
+
+  it('restores the Canvas values with CANVAS_WINS', async () => {
+    await setPolicies('CANVAS_WINS', 'CANVAS_WINS');
+    editTask(5, 1);
+
+    const planned = await plan();
+    expect(planned).toMatchObject({
+      action: 'UPDATE',
+      upToDate: false,
+      dueDateAfter: dueInDays(3),
+      priorityAfter: canvasPriority,
+    });
+    expect(planned.conflict).toBe(
+      `Due date changed in Todoist to ${todoistDateInDays(5)} (Canvas: ${todoistDateInDays(3)}); ` +
+        'restored the Canvas value. ' +
+        `Priority changed in Todoist to P4 (Canvas: P${5 - canvasPriority}); restored the Canvas value`,
+    );
+
+    await syncAssignmentsToTodoist('user-1', ['course-1']);
+    expect(todoist.tasks.get('task-1')).toMatchObject({
+      due: { date: todoistDateInDays(3) },
+      priority: canvasPriority,
+    });
+  });
+
+  it('keeps the Todoist values with TODOIST_WINS, on this sync and the next', async () => {
+    await setPolicies('TODOIST_WINS', 'TODOIST_WINS');
+    editTask(5, 4);
+
+    const planned = await plan();
+    expect(planned).toMatchObject({ action: 'UPDATE', upToDate: true, dueDateAfter: dueInDays(5), priorityAfter: 4 });
+    expect(planned.conflict).toContain('Due date changed in Todoist');
+    expect(planned.conflict).toContain('kept the Todoist value');
+
+    await syncAssignmentsToTodoist('user-1', ['course-1']);
+    expect(commandTypes()).toEqual([]);
+    expect(todoist.tasks.get('task-1')).toMatchObject({ due: { date: todoistDateInDays(5) }, priority: 4 });
+
+    // The last pushed values stay at what Tasklink sent, so the edit is still seen as one.
+    const assignment = await db.assignment.findUnique({ where: { id: 'assignment-1' } });
+    expect(assignment).toMatchObject({ lastPushedDueDate: todoistDateInDays(3), lastPushedPriority: canvasPriority });
+    expect((await plan()).conflict).toBe(planned.conflict);
+  });
+
+  it('applies Canvas values only when they are earlier or more urgent with ONLY_EARLIER', async () => {
+    await setPolicies('ONLY_EARLIER', 'ONLY_EARLIER');
+
+    // Pushed later and made less urgent: Canvas is earlier and more urgent.
+    editTask(5, canvasPriority - 1);
+    const later = await plan();
+    expect(later).toMatchObject({ dueDateAfter: dueInDays(3), priorityAfter: canvasPriority });
+    expect(later.conflict).toContain('applied the earlier Canvas value');
+    expect(later.conflict).not.toContain('kept the Todoist value');
+
+    // Pulled earlier and made more urgent: the user's values stay.
+    editTask(1, canvasPriority + 1);
+    const earlier = await plan();
+    expect(earlier).toMatchObject({ dueDateAfter: dueInDays(1), priorityAfter: canvasPriority + 1 });
+    expect(earlier.conflict).not.toContain('applied the earlier Canvas value');
+  });
+
+  it('applies each field its own policy', async () => {
+    await setPolicies('TODOIST_WINS', 'CANVAS_WINS');
+    editTask(5, 1);
+
+    expect(await plan()).toMatchObject({ dueDateAfter: dueInDays(5), priorityAfter: canvasPriority });
+  });
+});
@@ -0,0 +1,97 @@
+import crypto from 'crypto';
+import request from 'supertest';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('../src/prisma', async () => {
+  const { createFakePrisma } = await import('./fakePrisma');
+  return { prisma: createFakePrisma() };
+});
+
+import { prisma } from '../src/prisma';
+import { app } from '../src/server';
+import { verifyTodoistSignature } from '../src/services/todoistWebhookService';
+import type { FakePrisma } from './fakePrisma';
+
+const db = prisma as unknown as FakePrisma;
+
+const SECRET = 'client-secret';
+
+// Sign a body the way Todoist does: base64 HMAC-SHA256 keyed by the client secret.
+const sign = (body: string, secret = SECRET) => crypto.createHmac('sha256', secret).update(body).digest('base64');
+
+beforeEach(() => {
+  vi.stubEnv('TODOIST_CLIENT_SECRET', SECRET);
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('verifyTodoistSignature', () => {
+  const body = JSON.stringify({ event_name: 'item:completed', user_id: '42', event_data: { id: 'task-1' } });
+
+  it('accepts a body signed with the client secret', () => {
+    expect(verifyTodoistSignature(Buffer.from(body), sign(body))).toBe(true);
+  });
+
+  it('rejects a signature made with another secret', () => {
+    expect(verifyTodoistSignature(Buffer.from(body), sign(body, 'other-secret'))).toBe(false);
+  });
+
+  it('rejects a body changed after signing', () => {
+    const tampered = body.replace('task-1', 'task-2');
+    expect(verifyTodoistSignature(Buffer.from(tampered), sign(body))).toBe(false);
+  });
+
+  it('rejects a missing or truncated signature', () => {
+    expect(verifyTodoistSignature(Buffer.from(body), undefined)).toBe(false);
+    expect(verifyTodoistSignature(Buffer.from(body), '')).toBe(false);
+    expect(verifyTodoistSignature(Buffer.from(body), sign(body).slice(0, 20))).toBe(false);
+  });
+
+  it('rejects everything when no client secret is configured', () => {
+    vi.stubEnv('TODOIST_CLIENT_SECRET', '');
+    expect(verifyTodoistSignature(Buffer.from(body), sign(body, ''))).toBe(false);
+  });
+});
+
+describe('POST /webhooks/todoist', () => {
+  beforeEach(() => {
+    db.$reset();
+    db.$seed('user', { id: 'user-1', email: 'student@example.com', todoistUserId: '42' });
+    db.$seed('course', { id: 'course-1', userId: 'user-1', canvasCourseId: '101', todoistProjectId: 'project-1' });
+    db.$seed('assignment', { id: 'assignment-1', courseId: 'course-1', name: 'Lab report', todoistTaskId: 'task-1' });
+  });
+
+  const body = JSON.stringify({
+    event_name: 'item:completed',
+    user_id: '42',
+    event_data: { id: 'task-1', completed_at: '2026-10-19T15:00:00Z' },
+  });
+
+  const deliver = (signature: string) =>
+    request(app)
+      .post('/webhooks/todoist')
+      .set('Content-Type', 'application/json')
+      .set('X-Todoist-Hmac-SHA256', signature)
+      .send(body);
+
+  it('records a signed delivery on the assignment', async () => {
+    const res = await deliver(sign(body));
+
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({ handled: true, assignmentsUpdated: 1 });
+    const assignment = await db.assignment.findUnique({ where: { id: 'assignment-1' } });
+    expect(assignment?.todoistCompletedAt).toEqual(new Date('2026-10-19T15:00:00Z'));
+  });
+
+  it('answers 401 and changes nothing for a bad signature', async () => {
+    const before = db.$snapshot();
+
+    const res = await deliver(sign(body, 'other-secret'));
+
+    expect(res.status).toBe(401);
+    expect(res.body).toEqual({ error: 'Invalid webhook signature' });
+    expect(db.$snapshot()).toEqual(before);
+  });
+});
@@ -0,0 +1,104 @@
+import crypto from 'crypto';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  decryptOptionalToken,
+  decryptToken,
+  encryptOptionalToken,
+  encryptToken,
+  getActiveTokenKeyId,
+  getTokenKeyId,
+  isEncryptedToken,
+} from '../src/tokenCrypto';
+
+const newKey = (id: string) => `${id}:${crypto.randomBytes(32).toString('base64')}`;
+
+const useKeys = (...keys: string[]) => vi.stubEnv('TOKEN_ENCRYPTION_KEYS', keys.join(','));
+
+describe('token encryption', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  const oldKey = newKey('2025');
+  const currentKey = newKey('2026');
+
+  it('round-trips a token under the first key', () => {
+    useKeys(currentKey, oldKey);
+
+    const stored = encryptToken('canvas-token');
+
+    expect(stored).not.toContain('canvas-token');
+    expect(isEncryptedToken(stored)).toBe(true);
+    expect(getTokenKeyId(stored)).toBe('2026');
+    expect(decryptToken(stored)).toBe('canvas-token');
+  });
+
+  it('uses a fresh data key and IV for every value', () => {
+    useKeys(currentKey);
+
+    expect(encryptToken('same')).not.toBe(encryptToken('same'));
+  });
+
+  it('stores tokens as-is when no key is configured and reads them back unchanged', () => {
+    useKeys();
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    expect(getActiveTokenKeyId()).toBeNull();
+    expect(encryptToken('plain-token')).toBe('plain-token');
+    expect(getTokenKeyId('plain-token')).toBeNull();
+
+    useKeys(currentKey);
+    expect(decryptToken('plain-token')).toBe('plain-token');
+  });
+
+  it('passes null through the optional helpers', () => {
+    useKeys(currentKey);
+
+    expect(encryptOptionalToken(null)).toBeNull();
+    expect(decryptOptionalToken(null)).toBeNull();
+  });
+
+  it('rejects a tampered value', () => {
+    useKeys(currentKey);
+    const stored = encryptToken('todoist-token');
+    const payload = stored.split(':')[3];
+    const flipped = payload.slice(0, -2) + (payload.at(-2) === 'A' ? 'B' : 'A') + payload.at(-1);
+
+    expect(() => decryptToken(stored.replace(payload, flipped))).toThrow();
+  });
+
+  it('rejects malformed key entries', () => {
+    useKeys('no-separator');
+    expect(() => getActiveTokenKeyId()).toThrow('TOKEN_ENCRYPTION_KEYS entries must look like');
+
+    useKeys(`short:${crypto.randomBytes(16).toString('base64')}`);
+    expect(() => getActiveTokenKeyId()).toThrow('TOKEN_ENCRYPTION_KEYS entries must look like');
+  });
+
+  describe('key rotation', () => {
+    it('keeps reading values written under a retired key while it is still listed', () => {
+      useKeys(oldKey);
+      const stored = encryptToken('canvas-token');
+
+      useKeys(currentKey, oldKey);
+
+      expect(getActiveTokenKeyId()).toBe('2026');
+      expect(getTokenKeyId(stored)).toBe('2025');
+      expect(decryptToken(stored)).toBe('canvas-token');
+    });
+
+    it('moves a value to the active key when re-encrypted, after which the old key can go', () => {
+      useKeys(oldKey);
+      const stored = encryptToken('canvas-token');
+
+      useKeys(currentKey, oldKey);
+      const rotated = encryptToken(decryptToken(stored));
+      expect(getTokenKeyId(rotated)).toBe('2026');
+
+      useKeys(currentKey);
+      expect(decryptToken(rotated)).toBe('canvas-token');
+      expect(() => decryptToken(stored)).toThrow('encryption key "2025" is not configured');
+    });
+  });
+});
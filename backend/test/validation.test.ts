@@ -0,0 +1,41 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('../src/prisma', async () => {
+  const { createFakePrisma } = await import('./fakePrisma');
+  return { prisma: createFakePrisma() };
+});
+
+import { prisma } from '../src/prisma';
+import type { FakePrisma } from './fakePrisma';
+import { send, signIn, type SignedIn } from './session';
+
+const db = prisma as unknown as FakePrisma;
+
+describe('request validation', () => {
+  let student: SignedIn;
+
+  beforeEach(async () => {
+    db.$reset();
+    db.$seed('user', { id: 'user-1', email: 'student@example.com' });
+    student = await signIn('user-1');
+  });
+
+  it('answers 400 with the field path for an auto-sync interval over one week', async () => {
+    const before = db.$snapshot();
+
+    const res = await send(student, 'post', '/api/auto-sync', { enabled: true, intervalMinutes: 7 * 24 * 60 + 1 });
+
+    expect(res.status).toBe(400);
+    expect(res.body.issues).toEqual([
+      { location: 'body', path: 'intervalMinutes', message: 'must be at most 10080 (one week)' },
+    ]);
+    expect(db.$snapshot()).toEqual(before);
+  });
+
+  it('answers 400 for an interval too large for a date', async () => {
+    const res = await send(student, 'post', '/api/auto-sync', { enabled: true, intervalMinutes: 1e15 });
+
+    expect(res.status).toBe(400);
+    expect(res.body.error).toBe('intervalMinutes: must be at most 10080 (one week)');
+  });
+});
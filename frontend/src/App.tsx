@@ -4,9 +4,13 @@ import './App.css';
 type UiAssignment = {
   id: string;
   name: string;
+  itemType: CanvasItemType;
   courseName: string;
   dueDate: string | null;
+  submissionState: string | null;
   synced: boolean;
+  completedInTodoist: boolean;
+  deletedInTodoist: boolean;
   lastSyncedAt: string | null;
 };
 
@@ -19,15 +23,49 @@ type UiCourse = {
   id: string;
   name: string;
   todoistProjectId: string | null;
+  // Per-course due-time override; null = follow the setting in Sync settings.
+  useDueTime: boolean | null;
 };
 
 type UiSyncRun = {
   id: string;
+  kind: string;
   startedAt: string;
   finishedAt: string | null;
   status: string;
   message: string | null;
+  retries: number;
 };
+
+type UiSyncRunItem = {
+  id: string;
+  assignmentId: string | null;
+  assignmentName: string | null;
+  courseName: string | null;
+  action: string;
+  reason: string | null;
+  conflict: string | null;
+  todoistTaskId: string | null;
+  dueDateBefore: string | null;
+  dueDateAfter: string | null;
+  priorityBefore: number | null;
+  priorityAfter: number | null;
+};
+type UiPlannedChange = {
+  assignmentId: string;
+  assignmentName: string;
+  courseName: string | null;
+  action: 'CREATE' | 'LINK' | 'UPDATE' | 'CLOSE' | 'REOPEN' | 'SKIP';
+  reason: string | null;
+  conflict: string | null;
+  todoistTaskId: string | null;
+  dueDateBefore: string | null;
+  dueDateAfter: string | null;
+  dueTimeAfter: string | null;
+  priorityBefore: number | null;
+  priorityAfter: number | null;
+};
+
 type HelpTopic = 'canvasConfig' | 'todoistConfig' | 'autoSync' | 'assignments';
 
 type DayOption = 1 | 2 | 3 | 4 | 5; // 5 = 5+ days
@@ -49,6 +87,17 @@ type PrioritySettings = {
   p4: PriorityRangeConfig;
 };
 
+// Kinds of Canvas items Tasklink can import (see the Assignments detection card).
+type CanvasItemType = 'assignment' | 'quiz' | 'discussion' | 'page' | 'note';
+
+const CANVAS_ITEM_TYPE_OPTIONS: { type: CanvasItemType; label: string }[] = [
+  { type: 'assignment', label: 'Assignments' },
+  { type: 'quiz', label: 'Quizzes' },
+  { type: 'discussion', label: 'Discussions' },
+  { type: 'page', label: 'Pages with to-do dates' },
+  { type: 'note', label: 'Planner notes' },
+];
+
 type DetectionSettings = {
   // null = all future assignments
   daysAhead: number | null;
@@ -56,24 +105,194 @@ type DetectionSettings = {
   includeNoDueDate: boolean;
 };
 
+// Server-side sync preferences (shared with auto-sync), see /api/sync-settings.
+type ConflictPolicy = 'CANVAS_WINS' | 'TODOIST_WINS' | 'ONLY_EARLIER';
+
+type SyncSettings = {
+  closeSubmittedTasks: boolean;
+  reopenResubmitTasks: boolean;
+  // What to do when a synced task's due date / priority was edited in Todoist.
+  dueDateConflictPolicy: ConflictPolicy;
+  priorityConflictPolicy: ConflictPolicy;
+  // Send Canvas due times to Todoist instead of date-only due dates.
+  useDueTime: boolean;
+  // Kinds of Canvas items to import, for manual fetches and auto-sync alike.
+  itemTypes: CanvasItemType[];
+  // Todoist label added to tasks per Canvas item type (missing = no label).
+  itemTypeLabels: Partial<Record<CanvasItemType, string>>;
+  // Create a Todoist project for every course without one, named from the template
+  // ("{course}" is the course name), optionally colored and under a parent project.
+  autoProvisionProjects: boolean;
+  projectNameTemplate: string;
+  projectColor: string | null;
+  projectParentName: string | null;
+};
+
+// Response of /api/courses/provision-projects (also returned as `provisioned` by a Canvas fetch).
+type ProvisionResult = {
+  created: number;
+  linked: number;
+  failed: number;
+  courses: { courseId: string; courseName: string; projectName: string; action: string; error: string | null }[];
+};
+
+// Project colors offered in settings; values are Todoist's color names.
+const TODOIST_PROJECT_COLORS: { value: string; label: string }[] = [
+  { value: 'berry_red', label: 'Berry red' },
+  { value: 'red', label: 'Red' },
+  { value: 'orange', label: 'Orange' },
+  { value: 'yellow', label: 'Yellow' },
+  { value: 'olive_green', label: 'Olive green' },
+  { value: 'lime_green', label: 'Lime green' },
+  { value: 'green', label: 'Green' },
+  { value: 'mint_green', label: 'Mint green' },
+  { value: 'teal', label: 'Teal' },
+  { value: 'sky_blue', label: 'Sky blue' },
+  { value: 'light_blue', label: 'Light blue' },
+  { value: 'blue', label: 'Blue' },
+  { value: 'grape', label: 'Grape' },
+  { value: 'violet', label: 'Violet' },
+  { value: 'lavender', label: 'Lavender' },
+  { value: 'magenta', label: 'Magenta' },
+  { value: 'salmon', label: 'Salmon' },
+  { value: 'charcoal', label: 'Charcoal' },
+  { value: 'grey', label: 'Grey' },
+  { value: 'taupe', label: 'Taupe' },
+];
+
+// One-line summary of a provisioning run, or null if it did nothing.
+function describeProvisionResult(result: ProvisionResult): string | null {
+  const parts: string[] = [];
+  if (result.created > 0) parts.push(`created ${result.created} Todoist project${result.created === 1 ? '' : 's'}`);
+  if (result.linked > 0) parts.push(`linked ${result.linked} existing`);
+  if (result.failed > 0) {
+    const firstError = result.courses.find((c) => c.error)?.error;
+    parts.push(`${result.failed} failed${firstError ? ` (${firstError})` : ''}`);
+  }
+  if (parts.length === 0) return null;
+  const text = parts.join(', ');
+  return text.charAt(0).toUpperCase() + text.slice(1) + '.';
+}
+
 type AuthState = 'unknown' | 'unauthenticated' | 'authenticated';
 
+// Weekly auto-sync presets offered in settings. Days are 0 = Sunday ... 6 = Saturday,
+// times are local to the browser's timezone.
+const AUTO_SYNC_WEEKLY_PRESETS: { key: string; label: string; days: number[]; time: string }[] = [
+  { key: 'weekly-fri-1700', label: 'Fridays at 17:00', days: [5], time: '17:00' },
+  { key: 'weekly-weekdays-0700', label: 'Weekdays at 07:00', days: [1, 2, 3, 4, 5], time: '07:00' },
+  { key: 'weekly-sun-1800', label: 'Sundays at 18:00', days: [0], time: '18:00' },
+];
+
+const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const getBrowserTimeZone = (): string => {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+  } catch {
+    return 'UTC';
+  }
+};
+
 type CurrentUser = {
   email: string | null;
+  emailVerified: boolean;
+};
+
+type UiSession = {
+  id: string;
+  createdAt: string;
+  lastSeenAt: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  current: boolean;
+};
+
+// Rough "Chrome on macOS"-style label for a session's user agent.
+const describeUserAgent = (userAgent: string | null): string => {
+  if (!userAgent) return 'Unknown device';
+  const browser = /Edg\//.test(userAgent)
+    ? 'Edge'
+    : /Firefox\//.test(userAgent)
+    ? 'Firefox'
+    : /Chrome\//.test(userAgent)
+    ? 'Chrome'
+    : /Safari\//.test(userAgent)
+    ? 'Safari'
+    : 'Browser';
+  const os = /iPhone|iPad/.test(userAgent)
+    ? 'iOS'
+    : /Android/.test(userAgent)
+    ? 'Android'
+    : /Mac OS X/.test(userAgent)
+    ? 'macOS'
+    : /Windows/.test(userAgent)
+    ? 'Windows'
+    : /Linux/.test(userAgent)
+    ? 'Linux'
+    : null;
+  return os ? `${browser} on ${os}` : browser;
 };
 
 type BackendStatus = {
   canvasConfigured: boolean;
   canvasBaseUrl: string | null;
+  // 'oauth' when connected with "Connect with Canvas", 'token' for a pasted access token.
+  canvasConnection: 'oauth' | 'token' | null;
+  canvasNeedsReconnect: boolean;
+  canvasOAuthAvailable: boolean;
   todoistConfigured: boolean;
+  // 'oauth' when connected with "Connect with Todoist", 'token' for a pasted API token.
+  todoistConnection: 'oauth' | 'token' | null;
+  todoistOAuthAvailable: boolean;
   coursesCount: number;
   assignmentsCount: number;
   autoSyncEnabled: boolean;
   autoSyncIntervalMinutes: number;
+  autoSyncDays: number[];
+  autoSyncTime: string | null;
+  autoSyncNextRunAt: string | null;
+  autoSyncLastRunAt: string | null;
 };
 
 const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:4000';
 
+// CSRF token for the current session, from /api/me or the sign-in response. The backend
+// rejects state-changing requests from a signed-in browser without it.
+let csrfToken: string | null = null;
+
+// Item types saved in this browser by older versions (see SyncSettings.itemTypes), removed
+// from storage once read. null when there are none or every type was selected.
+const takeLegacyItemTypes = (): CanvasItemType[] | null => {
+  if (typeof window === 'undefined') return null;
+  const stored = window.localStorage.getItem('tasklink-detection-settings');
+  if (!stored) return null;
+  try {
+    const { itemTypes, ...rest } = JSON.parse(stored) as { itemTypes?: unknown };
+    if (!Array.isArray(itemTypes)) return null;
+    window.localStorage.setItem('tasklink-detection-settings', JSON.stringify(rest));
+    const selected = CANVAS_ITEM_TYPE_OPTIONS.map((o) => o.type).filter((t) => itemTypes.indexOf(t) >= 0);
+    return selected.length < CANVAS_ITEM_TYPE_OPTIONS.length ? selected : null;
+  } catch {
+    return null;
+  }
+};
+
+const setCsrfToken = (token: string | null | undefined) => {
+  csrfToken = token ?? null;
+};
+
+// fetch() against the backend: sends the session cookie, plus the CSRF token on anything
+// other than GET/HEAD.
+const apiFetch = (path: string, init: RequestInit = {}) => {
+  const method = (init.method ?? 'GET').toUpperCase();
+  const headers = new Headers(init.headers);
+  if (csrfToken && method !== 'GET' && method !== 'HEAD') {
+    headers.set('X-CSRF-Token', csrfToken);
+  }
+  return fetch(`${API_BASE_URL}${path}`, { ...init, headers, credentials: 'include' });
+};
+
 export const App: React.FC = () => {
   const [status, setStatus] = useState<'idle' | 'loading' | 'ok' | 'error'>('idle');
   const [message, setMessage] = useState<string | null>(null);
@@ -85,7 +304,13 @@ export const App: React.FC = () => {
   const [authPassword, setAuthPassword] = useState('');
   const [authLoading, setAuthLoading] = useState(false);
   const [authError, setAuthError] = useState<string | null>(null);
-  const [authMode, setAuthMode] = useState<'login' | 'register'>('login');
+  // 'forgot' asks for an email to send a reset link to; 'reset' sets a new password from that link.
+  const [authMode, setAuthMode] = useState<'login' | 'register' | 'forgot' | 'reset'>('login');
+  const [authNotice, setAuthNotice] = useState<string | null>(null);
+  const [resetToken, setResetToken] = useState<string | null>(null);
+  const [verificationMessage, setVerificationMessage] = useState<string | null>(null);
+  const [verificationSending, setVerificationSending] = useState(false);
+  const [googleAuthAvailable, setGoogleAuthAvailable] = useState(false);
   const [backendStatus, setBackendStatus] = useState<BackendStatus | null>(null);
   const [themeMode, setThemeMode] = useState<'light' | 'dark' | 'system'>('system');
   const [systemPrefersDark, setSystemPrefersDark] = useState(true);
@@ -98,6 +323,13 @@ export const App: React.FC = () => {
   const [canvasSyncing, setCanvasSyncing] = useState(false);
   const [canvasResult, setCanvasResult] = useState<string | null>(null);
   const [canvasError, setCanvasError] = useState<string | null>(null);
+  // Timezone Canvas due dates are read in: the effective one, the one detected from the
+  // Canvas profile, and the settings field for overriding it (empty = use detected).
+  const [canvasTimeZone, setCanvasTimeZone] = useState<string | null>(null);
+  const [canvasDetectedTimeZone, setCanvasDetectedTimeZone] = useState<string | null>(null);
+  const [canvasTimeZoneInput, setCanvasTimeZoneInput] = useState('');
+  const [canvasTimeZoneSaving, setCanvasTimeZoneSaving] = useState(false);
+  const [canvasTimeZoneError, setCanvasTimeZoneError] = useState<string | null>(null);
 
   const [assignments, setAssignments] = useState<UiAssignment[]>([]);
   const [assignmentsLoading, setAssignmentsLoading] = useState(false);
@@ -117,6 +349,13 @@ export const App: React.FC = () => {
   const [syncRuns, setSyncRuns] = useState<UiSyncRun[]>([]);
   const [syncRunsLoading, setSyncRunsLoading] = useState(false);
   const [syncRunsError, setSyncRunsError] = useState<string | null>(null);
+  const [selectedSyncRun, setSelectedSyncRun] = useState<UiSyncRun | null>(null);
+  const [sessions, setSessions] = useState<UiSession[]>([]);
+  const [sessionsLoading, setSessionsLoading] = useState(false);
+  const [sessionsError, setSessionsError] = useState<string | null>(null);
+  const [syncRunItems, setSyncRunItems] = useState<UiSyncRunItem[]>([]);
+  const [syncRunItemsLoading, setSyncRunItemsLoading] = useState(false);
+  const [syncRunItemsError, setSyncRunItemsError] = useState<string | null>(null);
 
   const [prioritySettings, setPrioritySettings] = useState<PrioritySettings>({
     p1: { enabled: true, to: 2, todoistPriority: 4 }, // Todoist P1
@@ -134,9 +373,32 @@ export const App: React.FC = () => {
   const [syncLoading, setSyncLoading] = useState(false);
   const [syncResult, setSyncResult] = useState<string | null>(null);
   const [syncError, setSyncError] = useState<string | null>(null);
+  const [syncSettings, setSyncSettings] = useState<SyncSettings>({
+    closeSubmittedTasks: true,
+    reopenResubmitTasks: false,
+    dueDateConflictPolicy: 'CANVAS_WINS',
+    priorityConflictPolicy: 'CANVAS_WINS',
+    useDueTime: false,
+    itemTypes: CANVAS_ITEM_TYPE_OPTIONS.map((o) => o.type),
+    itemTypeLabels: {},
+    autoProvisionProjects: false,
+    projectNameTemplate: '{course}',
+    projectColor: null,
+    projectParentName: null,
+  });
+  const [syncSettingsError, setSyncSettingsError] = useState<string | null>(null);
+  const [provisionLoading, setProvisionLoading] = useState(false);
+  const [provisionResult, setProvisionResult] = useState<string | null>(null);
+  const [provisionError, setProvisionError] = useState<string | null>(null);
+  const [syncPreview, setSyncPreview] = useState<UiPlannedChange[] | null>(null);
+  const [syncPreviewLoading, setSyncPreviewLoading] = useState(false);
+  const [syncPreviewSelectedIds, setSyncPreviewSelectedIds] = useState<string[]>([]);
 
   const [autoSyncEnabled, setAutoSyncEnabled] = useState(false);
   const [autoSyncIntervalMinutes, setAutoSyncIntervalMinutes] = useState(0);
+  // Non-empty days = weekly schedule at autoSyncTime; otherwise the interval is used.
+  const [autoSyncDays, setAutoSyncDays] = useState<number[]>([]);
+  const [autoSyncTime, setAutoSyncTime] = useState('17:00');
   const [autoSyncSaving, setAutoSyncSaving] = useState(false);
 
   // Check backend health independently so we can show it even on the login screen.
@@ -144,7 +406,7 @@ export const App: React.FC = () => {
     const checkHealth = async () => {
       try {
         setStatus('loading');
-        const healthRes = await fetch(`${API_BASE_URL}/health`);
+        const healthRes = await apiFetch('/health');
 
         if (!healthRes.ok) {
           throw new Error('Health check failed with status ' + healthRes.status);
@@ -175,9 +437,7 @@ export const App: React.FC = () => {
   useEffect(() => {
     const checkAuth = async () => {
       try {
-        const res = await fetch(`${API_BASE_URL}/api/me`, {
-          credentials: 'include',
-        });
+        const res = await apiFetch('/api/me');
 
         if (!res.ok) {
           setAuthState('unauthenticated');
@@ -186,12 +446,14 @@ export const App: React.FC = () => {
 
         const body = (await res.json()) as {
           authenticated?: boolean;
-          user?: { email?: string | null };
+          user?: { email?: string | null; emailVerified?: boolean };
+          csrfToken?: string | null;
         };
 
         if (body.authenticated && body.user) {
+          setCsrfToken(body.csrfToken);
           setAuthState('authenticated');
-          setCurrentUser({ email: body.user.email ?? null });
+          setCurrentUser({ email: body.user.email ?? null, emailVerified: !!body.user.emailVerified });
         } else {
           setAuthState('unauthenticated');
         }
@@ -203,38 +465,161 @@ export const App: React.FC = () => {
     void checkAuth();
   }, []);
 
+  // Password reset and email verification links from emails point at the frontend with
+  // ?reset=<token> or ?verify=<token>. Wait for the auth check so a signed-in browser has
+  // its CSRF token before posting.
+  useEffect(() => {
+    if (typeof window === 'undefined' || authState === 'unknown') return;
+    const params = new URLSearchParams(window.location.search);
+    const reset = params.get('reset');
+    const verify = params.get('verify');
+    if (!reset && !verify) return;
+    window.history.replaceState(null, '', window.location.pathname);
+
+    if (reset) {
+      setResetToken(reset);
+      setAuthMode('reset');
+      return;
+    }
+
+    const confirmEmail = async () => {
+      try {
+        const res = await apiFetch('/auth/verify-email', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ token: verify }),
+        });
+
+        const body = (await res.json().catch(() => ({}))) as { error?: string; message?: string };
+
+        if (!res.ok) {
+          throw new Error(body.error || 'Request failed with status ' + res.status);
+        }
+
+        setAuthNotice(body.message ?? 'Email address confirmed.');
+        setVerificationMessage(body.message ?? 'Email address confirmed.');
+        setCurrentUser((prev) => (prev ? { ...prev, emailVerified: true } : prev));
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Could not confirm your email address.';
+        setAuthError(message);
+        setVerificationMessage(message);
+      }
+    };
+
+    void confirmEmail();
+  }, [authState]);
+
+  // Find out which extra sign-in methods the backend offers.
+  useEffect(() => {
+    const loadAuthProviders = async () => {
+      try {
+        const res = await apiFetch('/auth/providers');
+        if (!res.ok) return;
+        const body = (await res.json()) as { google?: boolean };
+        setGoogleAuthAvailable(!!body.google);
+      } catch {
+        // Leave only email/password sign-in.
+      }
+    };
+
+    void loadAuthProviders();
+  }, []);
+
+  // The backend redirects back here after OAuth connect flows with the outcome in the
+  // query string (e.g. ?canvas=connected, or ?login=error after a failed Google sign-in).
+  // Show it once, then clean up the URL.
+  useEffect(() => {
+    if (typeof window === 'undefined') return;
+    const params = new URLSearchParams(window.location.search);
+    const canvasOutcome = params.get('canvas');
+    const todoistOutcome = params.get('todoist');
+    const loginOutcome = params.get('login');
+    if (!canvasOutcome && !todoistOutcome && !loginOutcome) return;
+
+    if (loginOutcome === 'error') {
+      setAuthError(params.get('message') || 'Could not sign in.');
+      window.history.replaceState(null, '', window.location.pathname);
+      return;
+    }
+
+    if (canvasOutcome === 'connected') {
+      setCanvasResult('Canvas connected.');
+    } else if (canvasOutcome) {
+      setCanvasError(params.get('message') || 'Could not connect to Canvas.');
+    }
+    if (todoistOutcome === 'connected') {
+      setTodoistResult('Todoist connected.');
+    } else if (todoistOutcome) {
+      setTodoistError(params.get('message') || 'Could not connect to Todoist.');
+    }
+    setView('settings');
+    window.history.replaceState(null, '', window.location.pathname);
+  }, []);
+
   // Once authenticated, load status + recent sync runs.
   useEffect(() => {
     if (authState !== 'authenticated') return;
 
     const fetchStatusAndSync = async () => {
       try {
-        const statusRes = await fetch(`${API_BASE_URL}/api/status`, {
-          credentials: 'include',
-        });
+        const statusRes = await apiFetch('/api/status');
 
         if (statusRes.ok) {
           const s = (await statusRes.json()) as {
-            canvas: { configured: boolean; baseUrl: string | null };
-            todoist: { configured: boolean };
+            canvas: {
+              configured: boolean;
+              baseUrl: string | null;
+              connection: 'oauth' | 'token' | null;
+              needsReconnect: boolean;
+              oauthAvailable: boolean;
+              timezone: string;
+              detectedTimezone: string | null;
+              timezoneOverride: string | null;
+            };
+            todoist: { configured: boolean; connection: 'oauth' | 'token' | null; oauthAvailable: boolean };
             summary: { coursesCount: number; assignmentsCount: number };
-            autoSync: { enabled: boolean; intervalMinutes: number };
+            autoSync: {
+              enabled: boolean;
+              intervalMinutes: number;
+              days: number[];
+              time: string | null;
+              nextRunAt: string | null;
+              lastRunAt: string | null;
+            };
           };
 
           setBackendStatus({
             canvasConfigured: s.canvas.configured,
             canvasBaseUrl: s.canvas.baseUrl,
+            canvasConnection: s.canvas.connection,
+            canvasNeedsReconnect: s.canvas.needsReconnect,
+            canvasOAuthAvailable: s.canvas.oauthAvailable,
             todoistConfigured: s.todoist.configured,
+            todoistConnection: s.todoist.connection,
+            todoistOAuthAvailable: s.todoist.oauthAvailable,
             coursesCount: s.summary.coursesCount,
             assignmentsCount: s.summary.assignmentsCount,
             autoSyncEnabled: s.autoSync.enabled,
             autoSyncIntervalMinutes: s.autoSync.intervalMinutes,
+            autoSyncDays: s.autoSync.days ?? [],
+            autoSyncTime: s.autoSync.time,
+            autoSyncNextRunAt: s.autoSync.nextRunAt,
+            autoSyncLastRunAt: s.autoSync.lastRunAt,
           });
           setAutoSyncEnabled(s.autoSync.enabled);
           setAutoSyncIntervalMinutes(s.autoSync.intervalMinutes || 0);
+          setAutoSyncDays(s.autoSync.days ?? []);
+          if (s.autoSync.time) {
+            setAutoSyncTime(s.autoSync.time);
+          }
           if (s.canvas.baseUrl) {
             setCanvasBaseUrl(s.canvas.baseUrl);
           }
+          setCanvasTimeZone(s.canvas.timezone);
+          setCanvasDetectedTimeZone(s.canvas.detectedTimezone);
+          setCanvasTimeZoneInput(s.canvas.timezoneOverride ?? '');
         }
 
         try {
@@ -242,6 +627,19 @@ export const App: React.FC = () => {
         } catch {
           // ignore here; errors are handled in the history card when user refreshes.
         }
+
+        const settingsRes = await apiFetch('/api/sync-settings');
+        if (settingsRes.ok) {
+          const settings = (await settingsRes.json()) as SyncSettings;
+          setSyncSettings(settings);
+
+          // The item-type filter used to be kept only in this browser, so auto-sync never saw
+          // it. Move a narrowed one to the server once.
+          const legacyItemTypes = takeLegacyItemTypes();
+          if (legacyItemTypes && settings.itemTypes.length === CANVAS_ITEM_TYPE_OPTIONS.length) {
+            void persistSyncSettings({ ...settings, itemTypes: legacyItemTypes });
+          }
+        }
       } catch (err) {
         setStatus('error');
         if (err instanceof Error) {
@@ -255,6 +653,12 @@ export const App: React.FC = () => {
     void fetchStatusAndSync();
   }, [authState]);
 
+  // Load signed-in devices whenever settings are opened.
+  useEffect(() => {
+    if (authState !== 'authenticated' || view !== 'settings') return;
+    void loadSessions();
+  }, [authState, view]);
+
   useEffect(() => {
     if (typeof window === 'undefined') return;
 
@@ -390,12 +794,11 @@ export const App: React.FC = () => {
       setCanvasError(null);
       setCanvasResult(null);
 
-      const res = await fetch(`${API_BASE_URL}/api/canvas/config`, {
+      const res = await apiFetch('/api/canvas/config', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        credentials: 'include',
         body: JSON.stringify({
           baseUrl: canvasBaseUrl,
           accessToken: canvasToken,
@@ -420,14 +823,41 @@ export const App: React.FC = () => {
     }
   };
 
+  const handleSaveCanvasTimeZone = async () => {
+    try {
+      setCanvasTimeZoneSaving(true);
+      setCanvasTimeZoneError(null);
+
+      const res = await apiFetch('/api/canvas/timezone', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ timezone: canvasTimeZoneInput.trim() || null }),
+      });
+
+      if (!res.ok) {
+        const body = (await res.json().catch(() => ({}))) as { error?: string };
+        throw new Error(body.error || 'Request failed with status ' + res.status);
+      }
+
+      const body = (await res.json()) as { timezone: string; detected: string | null; override: string | null };
+      setCanvasTimeZone(body.timezone);
+      setCanvasDetectedTimeZone(body.detected);
+      setCanvasTimeZoneInput(body.override ?? '');
+    } catch (err) {
+      setCanvasTimeZoneError(err instanceof Error ? err.message : 'Unknown error saving timezone');
+    } finally {
+      setCanvasTimeZoneSaving(false);
+    }
+  };
+
   const loadAssignments = async () => {
     try {
       setAssignmentsLoading(true);
       setAssignmentsError(null);
 
-      const res = await fetch(`${API_BASE_URL}/api/assignments/upcoming`, {
-        credentials: 'include',
-      });
+      const res = await apiFetch('/api/assignments/upcoming');
       if (!res.ok) {
         const body = (await res.json().catch(() => ({}))) as { error?: string };
         throw new Error(body.error || 'Request failed with status ' + res.status);
@@ -455,9 +885,7 @@ export const App: React.FC = () => {
       setCoursesLoading(true);
       setCoursesError(null);
 
-      const res = await fetch(`${API_BASE_URL}/api/courses`, {
-        credentials: 'include',
-      });
+      const res = await apiFetch('/api/courses');
       if (!res.ok) {
         const body = (await res.json().catch(() => ({}))) as { error?: string };
         throw new Error(body.error || 'Request failed with status ' + res.status);
@@ -484,12 +912,11 @@ export const App: React.FC = () => {
       setCanvasError(null);
       setCanvasResult(null);
 
-      const res = await fetch(`${API_BASE_URL}/api/canvas/fetch-assignments`, {
+      const res = await apiFetch('/api/canvas/fetch-assignments', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        credentials: 'include',
         body: JSON.stringify({
           daysAhead: detectionSettings.daysAhead,
           includeNoDueDate: detectionSettings.includeNoDueDate,
@@ -505,6 +932,8 @@ export const App: React.FC = () => {
         message?: string;
         coursesProcessed?: number;
         assignmentsUpserted?: number;
+        provisioned?: ProvisionResult | null;
+        provisionError?: string | null;
       };
 
       const text =
@@ -513,7 +942,16 @@ export const App: React.FC = () => {
         ' courses and upserted ' +
         (body.assignmentsUpserted ?? 0) +
         ' assignments.';
-      setCanvasResult(body.message ?? text);
+      const provisioned = body.provisioned ? describeProvisionResult(body.provisioned) : null;
+      setCanvasResult(
+        [
+          body.message ?? text,
+          provisioned,
+          body.provisionError ? `Could not create Todoist projects: ${body.provisionError}` : null,
+        ]
+          .filter(Boolean)
+          .join(' '),
+      );
 
       await loadAssignments();
       await loadCourses();
@@ -532,12 +970,11 @@ export const App: React.FC = () => {
     try {
       setTodoistSaving(true);
       setTodoistError(null);
-       const res = await fetch(`${API_BASE_URL}/api/todoist/config`, {
+       const res = await apiFetch('/api/todoist/config', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        credentials: 'include',
         body: JSON.stringify({ accessToken: todoistToken }),
       });
 
@@ -559,13 +996,39 @@ export const App: React.FC = () => {
     }
   };
 
+  const handleDisconnectTodoist = async () => {
+    try {
+      setTodoistSaving(true);
+      setTodoistError(null);
+      const res = await apiFetch('/api/todoist/disconnect', {
+        method: 'POST',
+      });
+
+      const body = (await res.json().catch(() => ({}))) as { error?: string; message?: string };
+
+      if (!res.ok) {
+        throw new Error(body.error || 'Request failed with status ' + res.status);
+      }
+
+      setTodoistResult(body.message ?? 'Todoist disconnected.');
+      setTodoistProjects([]);
+      setBackendStatus((prev) => (prev ? { ...prev, todoistConfigured: false, todoistConnection: null } : prev));
+    } catch (err) {
+      if (err instanceof Error) {
+        setTodoistError(err.message);
+      } else {
+        setTodoistError('Unknown error disconnecting Todoist');
+      }
+    } finally {
+      setTodoistSaving(false);
+    }
+  };
+
   const handleLoadTodoistProjects = async () => {
     try {
       setTodoistProjectsLoading(true);
       setTodoistError(null);
-       const res = await fetch(`${API_BASE_URL}/api/todoist/projects`, {
-        credentials: 'include',
-      });
+       const res = await apiFetch('/api/todoist/projects');
       if (!res.ok) {
         const body = (await res.json().catch(() => ({}))) as { error?: string };
         throw new Error(body.error || 'Request failed with status ' + res.status);
@@ -595,14 +1058,51 @@ export const App: React.FC = () => {
     }
   };
 
+  const handleProvisionProjects = async () => {
+    try {
+      setProvisionLoading(true);
+      setProvisionError(null);
+      setProvisionResult(null);
+
+      const res = await apiFetch('/api/courses/provision-projects', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({}),
+      });
+
+      if (!res.ok) {
+        const body = (await res.json().catch(() => ({}))) as { error?: string };
+        throw new Error(body.error || 'Request failed with status ' + res.status);
+      }
+
+      const result = (await res.json()) as ProvisionResult;
+      setProvisionResult(describeProvisionResult(result) ?? 'Every course already has a Todoist project.');
+
+      await loadCourses();
+      // Show the new projects in the course mapping dropdowns.
+      if (todoistProjects.length > 0) {
+        await handleLoadTodoistProjects();
+      }
+    } catch (err) {
+      if (err instanceof Error) {
+        setProvisionError(err.message);
+      } else {
+        setProvisionError('Unknown error creating Todoist projects');
+      }
+    } finally {
+      setProvisionLoading(false);
+    }
+  };
+
   const handleUpdateCourseProject = async (courseId: string, todoistProjectId: string | null) => {
     try {
-      const res = await fetch(`${API_BASE_URL}/api/courses/map-project`, {
+      const res = await apiFetch('/api/courses/map-project', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        credentials: 'include',
         body: JSON.stringify({ courseId, todoistProjectId }),
       });
 
@@ -629,6 +1129,32 @@ export const App: React.FC = () => {
     }
   };
 
+  const handleUpdateCourseDueTime = async (courseId: string, useDueTime: boolean | null) => {
+    try {
+      const res = await apiFetch('/api/courses/due-time', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ courseId, useDueTime }),
+      });
+
+      if (!res.ok) {
+        const body = (await res.json().catch(() => ({}))) as { error?: string };
+        throw new Error(body.error || 'Request failed with status ' + res.status);
+      }
+
+      const body = (await res.json()) as UiCourse;
+      setCourses((prev) => prev.map((c) => (c.id === courseId ? body : c)));
+    } catch (err) {
+      if (err instanceof Error) {
+        setCoursesError(err.message);
+      } else {
+        setCoursesError('Unknown error updating course due times');
+      }
+    }
+  };
+
   const handleToggleCourseForSync = (courseId: string, checked: boolean) => {
     setSyncSelectedCourseIds((prev) => {
       if (checked) {
@@ -638,18 +1164,54 @@ export const App: React.FC = () => {
     });
   };
 
-  const handleSyncToTodoist = async () => {
+  const handlePreviewSync = async () => {
+    try {
+      setSyncPreviewLoading(true);
+      setSyncError(null);
+      setSyncResult(null);
+
+      const res = await apiFetch('/api/todoist/sync-assignments/preview', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          courseIds: syncSelectedCourseIds,
+          prioritySettings,
+          detectionSettings: {
+            daysAhead: detectionSettings.daysAhead,
+            includeNoDueDate: detectionSettings.includeNoDueDate,
+          },
+        }),
+      });
+
+      if (!res.ok) {
+        const body = (await res.json().catch(() => ({}))) as { error?: string };
+        throw new Error(body.error || 'Request failed with status ' + res.status);
+      }
+
+      const body = (await res.json()) as { changes?: UiPlannedChange[] };
+      const changes = body.changes ?? [];
+      setSyncPreview(changes);
+      setSyncPreviewSelectedIds(changes.filter((c) => c.action !== 'SKIP').map((c) => c.assignmentId));
+    } catch (err) {
+      setSyncError(err instanceof Error ? err.message : 'Unknown error previewing sync');
+    } finally {
+      setSyncPreviewLoading(false);
+    }
+  };
+
+  const handleSyncToTodoist = async (assignmentIds?: string[]) => {
     try {
       setSyncLoading(true);
       setSyncError(null);
       setSyncResult(null);
 
-      const res = await fetch(`${API_BASE_URL}/api/todoist/sync-assignments`, {
+      const res = await apiFetch('/api/todoist/sync-assignments', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        credentials: 'include',
         body: JSON.stringify({
           courseIds: syncSelectedCourseIds,
           prioritySettings,
@@ -657,6 +1219,7 @@ export const App: React.FC = () => {
             daysAhead: detectionSettings.daysAhead,
             includeNoDueDate: detectionSettings.includeNoDueDate,
           },
+          assignmentIds,
         }),
       });
 
@@ -665,15 +1228,26 @@ export const App: React.FC = () => {
         throw new Error(body.error || 'Request failed with status ' + res.status);
       }
 
-      const body = (await res.json()) as { message?: string; created?: number; updated?: number; skipped?: number };
+      setSyncPreview(null);
+      const body = (await res.json()) as {
+        message?: string;
+        created?: number;
+        updated?: number;
+        closed?: number;
+        skipped?: number;
+        failed?: number;
+      };
       const text =
         'Created ' +
         (body.created ?? 0) +
         ', updated ' +
         (body.updated ?? 0) +
+        ', closed ' +
+        (body.closed ?? 0) +
         ' Todoist tasks, skipped ' +
         (body.skipped ?? 0) +
-        ' (already synced or missing project).';
+        ' (already synced or missing project).' +
+        (body.failed ? ' ' + body.failed + ' failed and will be retried on the next sync.' : '');
       setSyncResult(body.message ?? text);
 
       await loadAssignments();
@@ -685,16 +1259,19 @@ export const App: React.FC = () => {
     }
   };
 
-  const handleSaveAutoSync = async (enabled: boolean, intervalMinutes: number) => {
+  const handleSaveAutoSync = async (enabled: boolean, intervalMinutes: number, days: number[], time: string) => {
     try {
       setAutoSyncSaving(true);
-      const res = await fetch(`${API_BASE_URL}/api/auto-sync`, {
+      const payload =
+        days.length > 0
+          ? { enabled, days, time, timezone: getBrowserTimeZone() }
+          : { enabled, intervalMinutes };
+      const res = await apiFetch('/api/auto-sync', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        credentials: 'include',
-        body: JSON.stringify({ enabled, intervalMinutes }),
+        body: JSON.stringify(payload),
       });
 
       if (!res.ok) {
@@ -702,15 +1279,27 @@ export const App: React.FC = () => {
         throw new Error(body.error || 'Request failed with status ' + res.status);
       }
 
-      const body = (await res.json()) as { enabled: boolean; intervalMinutes: number };
+      const body = (await res.json()) as {
+        enabled: boolean;
+        intervalMinutes: number;
+        days: number[];
+        time: string | null;
+        nextRunAt: string | null;
+        lastRunAt: string | null;
+      };
       setAutoSyncEnabled(body.enabled);
       setAutoSyncIntervalMinutes(body.intervalMinutes);
+      setAutoSyncDays(body.days ?? []);
       setBackendStatus((prev) =>
         prev
           ? {
               ...prev,
               autoSyncEnabled: body.enabled,
               autoSyncIntervalMinutes: body.intervalMinutes,
+              autoSyncDays: body.days ?? [],
+              autoSyncTime: body.time,
+              autoSyncNextRunAt: body.nextRunAt,
+              autoSyncLastRunAt: body.lastRunAt,
             }
           : prev,
       );
@@ -797,14 +1386,24 @@ export const App: React.FC = () => {
     }
   };
 
+  const describeAutoSync = (s: BackendStatus): string => {
+    if (!s.autoSyncEnabled) return 'Off';
+    if (s.autoSyncDays.length > 0) {
+      const preset = AUTO_SYNC_WEEKLY_PRESETS.find(
+        (p) => p.time === s.autoSyncTime && p.days.join(',') === s.autoSyncDays.join(','),
+      );
+      if (preset) return preset.label;
+      return s.autoSyncDays.map((d) => WEEKDAY_LABELS[d]).join(', ') + ' at ' + (s.autoSyncTime ?? '');
+    }
+    return s.autoSyncIntervalMinutes + ' min';
+  };
+
   const loadSyncRuns = async () => {
     try {
       setSyncRunsLoading(true);
       setSyncRunsError(null);
 
-      const res = await fetch(`${API_BASE_URL}/api/sync-runs`, {
-        credentials: 'include',
-      });
+      const res = await apiFetch('/api/sync-runs');
       if (!res.ok) {
         const body = (await res.json().catch(() => ({}))) as { error?: string };
         throw new Error(body.error || 'Request failed with status ' + res.status);
@@ -823,82 +1422,320 @@ export const App: React.FC = () => {
     }
   };
 
-  const handleChangeThemeMode = (mode: 'light' | 'dark' | 'system') => {
-    setThemeMode(mode);
-    if (typeof window !== 'undefined') {
-      window.localStorage.setItem('tasklink-theme', mode);
-    }
-  };
-
-  const persistPrioritySettings = (next: PrioritySettings) => {
-    const normalized = normalizePriorityCuts(next);
-    setPrioritySettings(normalized);
-    if (typeof window !== 'undefined') {
-      window.localStorage.setItem('tasklink-priority-settings', JSON.stringify(normalized));
-    }
-  };
-
-  const persistDetectionSettings = (next: DetectionSettings) => {
-    setDetectionSettings(next);
-    if (typeof window !== 'undefined') {
-      window.localStorage.setItem('tasklink-detection-settings', JSON.stringify(next));
-    }
-  };
-
-  const effectiveTheme: 'light' | 'dark' =
-    themeMode === 'system' ? (systemPrefersDark ? 'dark' : 'light') : themeMode;
-
-  const handleSubmitAuth = async () => {
+  const loadSessions = async () => {
     try {
-      setAuthLoading(true);
-      setAuthError(null);
-
-      const email = authEmail.trim();
-      const password = authPassword;
-      if (!email || !password) {
-        setAuthError('Email and password are required.');
-        return;
-      }
-
-      const endpoint = authMode === 'login' ? '/auth/login' : '/auth/register';
-      const res = await fetch(`${API_BASE_URL}${endpoint}`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        credentials: 'include',
-        body: JSON.stringify({ email, password, remember: rememberMe }),
-      });
-
-      const body = (await res.json().catch(() => ({}))) as { error?: string; user?: { email?: string | null } };
+      setSessionsLoading(true);
+      setSessionsError(null);
 
+      const res = await apiFetch('/api/sessions');
       if (!res.ok) {
-        throw new Error(body.error || 'Authentication failed');
+        const body = (await res.json().catch(() => ({}))) as { error?: string };
+        throw new Error(body.error || 'Request failed with status ' + res.status);
       }
 
-      setAuthState('authenticated');
-      setCurrentUser({ email: body.user?.email ?? email });
-      setAuthPassword('');
+      const body = (await res.json()) as { sessions?: UiSession[] };
+      setSessions(body.sessions ?? []);
     } catch (err) {
       if (err instanceof Error) {
-        setAuthError(err.message);
+        setSessionsError(err.message);
       } else {
-        setAuthError('Unknown authentication error');
+        setSessionsError('Unknown error loading devices');
       }
     } finally {
-      setAuthLoading(false);
+      setSessionsLoading(false);
     }
   };
 
-  const handleLogout = async () => {
+  const handleRevokeSession = async (session: UiSession) => {
     try {
-      await fetch(`${API_BASE_URL}/auth/logout`, {
-        method: 'POST',
-        credentials: 'include',
+      setSessionsError(null);
+      const res = await apiFetch(`/api/sessions/${encodeURIComponent(session.id)}`, {
+        method: 'DELETE',
       });
-    } catch {
-      // ignore
+      if (!res.ok) {
+        const body = (await res.json().catch(() => ({}))) as { error?: string };
+        throw new Error(body.error || 'Request failed with status ' + res.status);
+      }
+
+      if (session.current) {
+        setCsrfToken(null);
+        setAuthState('unauthenticated');
+        setCurrentUser(null);
+        return;
+      }
+      setSessions((prev) => prev.filter((s) => s.id !== session.id));
+    } catch (err) {
+      if (err instanceof Error) {
+        setSessionsError(err.message);
+      } else {
+        setSessionsError('Unknown error signing out device');
+      }
+    }
+  };
+
+  const handleRevokeOtherSessions = async () => {
+    try {
+      setSessionsLoading(true);
+      setSessionsError(null);
+      const res = await apiFetch('/api/sessions/revoke-others', {
+        method: 'POST',
+      });
+      if (!res.ok) {
+        const body = (await res.json().catch(() => ({}))) as { error?: string };
+        throw new Error(body.error || 'Request failed with status ' + res.status);
+      }
+
+      setSessions((prev) => prev.filter((s) => s.current));
+    } catch (err) {
+      if (err instanceof Error) {
+        setSessionsError(err.message);
+      } else {
+        setSessionsError('Unknown error signing out other devices');
+      }
+    } finally {
+      setSessionsLoading(false);
+    }
+  };
+
+  const loadSyncRunDetails = async (run: UiSyncRun) => {
+    try {
+      setSelectedSyncRun(run);
+      setSyncRunItems([]);
+      setSyncRunItemsLoading(true);
+      setSyncRunItemsError(null);
+
+      const res = await apiFetch(`/api/sync-runs/${encodeURIComponent(run.id)}`);
+      if (!res.ok) {
+        const body = (await res.json().catch(() => ({}))) as { error?: string };
+        throw new Error(body.error || 'Request failed with status ' + res.status);
+      }
+
+      const body = (await res.json()) as { items?: UiSyncRunItem[] };
+      setSyncRunItems(body.items ?? []);
+    } catch (err) {
+      if (err instanceof Error) {
+        setSyncRunItemsError(err.message);
+      } else {
+        setSyncRunItemsError('Unknown error loading sync run details');
+      }
+    } finally {
+      setSyncRunItemsLoading(false);
+    }
+  };
+
+  const handleChangeThemeMode = (mode: 'light' | 'dark' | 'system') => {
+    setThemeMode(mode);
+    if (typeof window !== 'undefined') {
+      window.localStorage.setItem('tasklink-theme', mode);
+    }
+  };
+
+  const persistPrioritySettings = (next: PrioritySettings) => {
+    const normalized = normalizePriorityCuts(next);
+    setPrioritySettings(normalized);
+    if (typeof window !== 'undefined') {
+      window.localStorage.setItem('tasklink-priority-settings', JSON.stringify(normalized));
+    }
+  };
+
+  const persistSyncSettings = async (next: SyncSettings) => {
+    const previous = syncSettings;
+    setSyncSettings(next);
+    try {
+      setSyncSettingsError(null);
+      const res = await apiFetch('/api/sync-settings', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(next),
+      });
+
+      if (!res.ok) {
+        const body = (await res.json().catch(() => ({}))) as { error?: string };
+        throw new Error(body.error || 'Request failed with status ' + res.status);
+      }
+
+      setSyncSettings((await res.json()) as SyncSettings);
+    } catch (err) {
+      setSyncSettings(previous);
+      setSyncSettingsError(err instanceof Error ? err.message : 'Unknown error saving sync settings');
+    }
+  };
+
+  const persistDetectionSettings = (next: DetectionSettings) => {
+    setDetectionSettings(next);
+    if (typeof window !== 'undefined') {
+      window.localStorage.setItem('tasklink-detection-settings', JSON.stringify(next));
+    }
+  };
+
+  const effectiveTheme: 'light' | 'dark' =
+    themeMode === 'system' ? (systemPrefersDark ? 'dark' : 'light') : themeMode;
+
+  const handleSubmitAuth = async () => {
+    try {
+      setAuthLoading(true);
+      setAuthError(null);
+
+      const email = authEmail.trim();
+      const password = authPassword;
+      if (!email || !password) {
+        setAuthError('Email and password are required.');
+        return;
+      }
+
+      const endpoint = authMode === 'login' ? '/auth/login' : '/auth/register';
+      const res = await apiFetch(endpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ email, password, remember: rememberMe }),
+      });
+
+      const body = (await res.json().catch(() => ({}))) as {
+        error?: string;
+        user?: { email?: string | null; emailVerified?: boolean };
+        csrfToken?: string | null;
+      };
+
+      if (!res.ok) {
+        throw new Error(body.error || 'Authentication failed');
+      }
+
+      setCsrfToken(body.csrfToken);
+      setAuthState('authenticated');
+      setCurrentUser({ email: body.user?.email ?? email, emailVerified: !!body.user?.emailVerified });
+      setAuthNotice(null);
+      setAuthPassword('');
+    } catch (err) {
+      if (err instanceof Error) {
+        setAuthError(err.message);
+      } else {
+        setAuthError('Unknown authentication error');
+      }
+    } finally {
+      setAuthLoading(false);
+    }
+  };
+
+  const handleRequestPasswordReset = async () => {
+    try {
+      setAuthLoading(true);
+      setAuthError(null);
+      setAuthNotice(null);
+
+      const email = authEmail.trim();
+      if (!email) {
+        setAuthError('Enter the email address you signed up with.');
+        return;
+      }
+
+      const res = await apiFetch('/auth/password-reset/request', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ email }),
+      });
+
+      const body = (await res.json().catch(() => ({}))) as { error?: string; message?: string };
+
+      if (!res.ok) {
+        throw new Error(body.error || 'Request failed with status ' + res.status);
+      }
+
+      setAuthNotice(body.message ?? 'Check your email for a reset link.');
+    } catch (err) {
+      if (err instanceof Error) {
+        setAuthError(err.message);
+      } else {
+        setAuthError('Unknown error requesting password reset');
+      }
+    } finally {
+      setAuthLoading(false);
     }
+  };
+
+  const handleConfirmPasswordReset = async () => {
+    try {
+      setAuthLoading(true);
+      setAuthError(null);
+
+      if (!resetToken || !authPassword) {
+        setAuthError('Enter a new password.');
+        return;
+      }
+
+      const res = await apiFetch('/auth/password-reset/confirm', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ token: resetToken, password: authPassword }),
+      });
+
+      const body = (await res.json().catch(() => ({}))) as { error?: string; message?: string };
+
+      if (!res.ok) {
+        throw new Error(body.error || 'Request failed with status ' + res.status);
+      }
+
+      // Resetting the password signs the account out everywhere, including here.
+      setCsrfToken(null);
+      setAuthState('unauthenticated');
+      setCurrentUser(null);
+      setResetToken(null);
+      setAuthPassword('');
+      setAuthMode('login');
+      setAuthNotice(body.message ?? 'Password updated. You can now sign in.');
+    } catch (err) {
+      if (err instanceof Error) {
+        setAuthError(err.message);
+      } else {
+        setAuthError('Unknown error resetting password');
+      }
+    } finally {
+      setAuthLoading(false);
+    }
+  };
+
+  const handleResendVerificationEmail = async () => {
+    try {
+      setVerificationSending(true);
+      setVerificationMessage(null);
+      const res = await apiFetch('/api/me/verification-email', {
+        method: 'POST',
+      });
+
+      const body = (await res.json().catch(() => ({}))) as { error?: string; message?: string };
+
+      if (!res.ok) {
+        throw new Error(body.error || 'Request failed with status ' + res.status);
+      }
+
+      setVerificationMessage(body.message ?? 'Verification email sent.');
+    } catch (err) {
+      if (err instanceof Error) {
+        setVerificationMessage(err.message);
+      } else {
+        setVerificationMessage('Unknown error sending verification email');
+      }
+    } finally {
+      setVerificationSending(false);
+    }
+  };
+
+  const handleLogout = async () => {
+    try {
+      await apiFetch('/auth/logout', {
+        method: 'POST',
+      });
+    } catch {
+      // ignore
+    }
+    setCsrfToken(null);
     setAuthState('unauthenticated');
     setCurrentUser(null);
   };
@@ -995,9 +1832,11 @@ export const App: React.FC = () => {
     );
   }
 
-  // Unauthenticated landing page with email/password sign-in.
-  if (authState === 'unauthenticated') {
+  // Unauthenticated landing page with email/password (or Google) sign-in. A password reset
+  // link is handled here even if this browser is still signed in.
+  if (authState === 'unauthenticated' || (authState === 'authenticated' && authMode === 'reset')) {
     const isLogin = authMode === 'login';
+    const isRecovery = authMode === 'forgot' || authMode === 'reset';
     return (
       <div className={"app-root " + (effectiveTheme === 'light' ? 'theme-light' : 'theme-dark')}>
         <div className="app-shell">
@@ -1013,6 +1852,75 @@ export const App: React.FC = () => {
             </div>
           </header>
 
+          {isRecovery ? (
+          <section className="card" style={{ maxWidth: '480px', margin: '0 auto' }}>
+            <div className="card-header">
+              <div className="card-title">{authMode === 'forgot' ? 'Reset password' : 'Choose a new password'}</div>
+            </div>
+            <div className="card-description">
+              {authMode === 'forgot'
+                ? 'Enter the email address of your Tasklink account and we will send you a link to reset your password.'
+                : 'Enter a new password for your account. You will be signed out on all devices.'}
+            </div>
+            {authMode === 'forgot' ? (
+              <div className="field-group">
+                <label className="field-label">Email</label>
+                <input
+                  className="input"
+                  type="email"
+                  value={authEmail}
+                  onChange={(e) => setAuthEmail(e.target.value)}
+                  autoComplete="email"
+                />
+              </div>
+            ) : (
+              <div className="field-group">
+                <label className="field-label">New password</label>
+                <input
+                  className="input"
+                  type="password"
+                  value={authPassword}
+                  onChange={(e) => setAuthPassword(e.target.value)}
+                  autoComplete="new-password"
+                />
+              </div>
+            )}
+            {authError && (
+              <p className="status-text" style={{ color: '#f97373', marginTop: '0.4rem' }}>
+                {authError}
+              </p>
+            )}
+            {authNotice && (
+              <p className="status-text" style={{ color: '#4ade80', marginTop: '0.4rem' }}>
+                {authNotice}
+              </p>
+            )}
+            <div className="button-row" style={{ marginTop: '0.5rem' }}>
+              <button
+                type="button"
+                className="btn btn-primary"
+                onClick={authMode === 'forgot' ? handleRequestPasswordReset : handleConfirmPasswordReset}
+                disabled={authLoading}
+              >
+                {authLoading ? 'Saving…' : authMode === 'forgot' ? 'Send reset link' : 'Set new password'}
+              </button>
+            </div>
+            <div style={{ marginTop: '0.75rem', fontSize: '0.85rem' }}>
+              <button
+                type="button"
+                className="link-button"
+                onClick={() => {
+                  setAuthMode('login');
+                  setResetToken(null);
+                  setAuthError(null);
+                  setAuthNotice(null);
+                }}
+              >
+                Back to sign in
+              </button>
+            </div>
+          </section>
+          ) : (
           <section className="card" style={{ maxWidth: '480px', margin: '0 auto' }}>
             <div className="card-header">
               <div className="card-title">{isLogin ? 'Sign in' : 'Create account'}</div>
@@ -1059,6 +1967,11 @@ export const App: React.FC = () => {
                 {authError}
               </p>
             )}
+            {authNotice && (
+              <p className="status-text" style={{ color: '#4ade80', marginTop: '0.4rem' }}>
+                {authNotice}
+              </p>
+            )}
             <div className="button-row" style={{ marginTop: '0.5rem' }}>
               <button
                 type="button"
@@ -1068,6 +1981,14 @@ export const App: React.FC = () => {
               >
                 {authLoading ? (isLogin ? 'Signing in…' : 'Creating account…') : isLogin ? 'Sign in' : 'Create account'}
               </button>
+              {googleAuthAvailable && (
+                <a
+                  className="btn btn-ghost"
+                  href={`${API_BASE_URL}/auth/google/start?remember=${rememberMe ? '1' : '0'}`}
+                >
+                  Continue with Google
+                </a>
+              )}
             </div>
             <div style={{ marginTop: '0.75rem', fontSize: '0.85rem' }}>
               {isLogin ? (
@@ -1090,11 +2011,26 @@ export const App: React.FC = () => {
                     setAuthError(null);
                   }}
                 >
-                  Already have an account? Sign in instead.
+                  Already have an account? Sign in instead.
+                </button>
+              )}
+              {isLogin && (
+                <button
+                  type="button"
+                  className="link-button"
+                  style={{ marginLeft: '0.75rem' }}
+                  onClick={() => {
+                    setAuthMode('forgot');
+                    setAuthError(null);
+                    setAuthNotice(null);
+                  }}
+                >
+                  Forgot your password?
                 </button>
               )}
             </div>
           </section>
+          )}
         </div>
       </div>
     );
@@ -1143,6 +2079,34 @@ export const App: React.FC = () => {
           </div>
         </header>
 
+        {currentUser && currentUser.email && !currentUser.emailVerified && (
+          <section className="card">
+            <div className="card-header">
+              <div className="card-title">Confirm your email address</div>
+              <span className="badge badge-warn">Unverified</span>
+            </div>
+            <div className="card-description">
+              We sent a confirmation link to {currentUser.email}. Confirming it lets you reset your password if you
+              ever forget it.
+            </div>
+            <div className="button-row">
+              <button
+                type="button"
+                className="btn btn-ghost"
+                onClick={handleResendVerificationEmail}
+                disabled={verificationSending}
+              >
+                {verificationSending ? 'Sending…' : 'Resend email'}
+              </button>
+            </div>
+            {verificationMessage && (
+              <p className="status-text" style={{ marginTop: '0.4rem' }}>
+                {verificationMessage}
+              </p>
+            )}
+          </section>
+        )}
+
         {view === 'settings' ? (
           <div className="settings-page">
             <div className="settings-header">
@@ -1218,9 +2182,30 @@ export const App: React.FC = () => {
                 <label className="field-label">Frequency</label>
                 <select
                   className="select"
-                  value={autoSyncEnabled ? autoSyncIntervalMinutes || 60 : 0}
+                  value={(() => {
+                    if (!autoSyncEnabled) return '0';
+                    if (autoSyncDays.length === 0) return String(autoSyncIntervalMinutes || 60);
+                    const preset = AUTO_SYNC_WEEKLY_PRESETS.find(
+                      (p) => p.time === autoSyncTime && p.days.join(',') === autoSyncDays.join(','),
+                    );
+                    return preset ? preset.key : 'weekly-custom';
+                  })()}
                   onChange={(e) => {
-                    const minutes = Number(e.target.value);
+                    const value = e.target.value;
+                    const preset = AUTO_SYNC_WEEKLY_PRESETS.find((p) => p.key === value);
+                    if (preset) {
+                      setAutoSyncEnabled(true);
+                      setAutoSyncDays(preset.days);
+                      setAutoSyncTime(preset.time);
+                      return;
+                    }
+                    if (value === 'weekly-custom') {
+                      setAutoSyncEnabled(true);
+                      setAutoSyncDays((prev) => (prev.length > 0 ? prev : [5]));
+                      return;
+                    }
+                    const minutes = Number(value);
+                    setAutoSyncDays([]);
                     if (minutes <= 0) {
                       setAutoSyncEnabled(false);
                       setAutoSyncIntervalMinutes(0);
@@ -1236,18 +2221,64 @@ export const App: React.FC = () => {
                   <option value={60}>Every 60 minutes</option>
                   <option value={180}>Every 3 hours</option>
                   <option value={1440}>Every day</option>
+                  {AUTO_SYNC_WEEKLY_PRESETS.map((p) => (
+                    <option key={p.key} value={p.key}>
+                      {p.label}
+                    </option>
+                  ))}
+                  <option value="weekly-custom">Custom weekly schedule…</option>
                 </select>
               </div>
+              {autoSyncEnabled && autoSyncDays.length > 0 && (
+                <div className="field-group">
+                  <label className="field-label">Days and time ({getBrowserTimeZone()})</label>
+                  <div style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: '0.5rem', fontSize: '0.85rem' }}>
+                    {WEEKDAY_LABELS.map((label, day) => (
+                      <label key={label}>
+                        <input
+                          type="checkbox"
+                          checked={autoSyncDays.indexOf(day) >= 0}
+                          onChange={(e) =>
+                            setAutoSyncDays((prev) => {
+                              const next = e.target.checked
+                                ? prev.concat(day)
+                                : prev.filter((d) => d !== day);
+                              // Keep at least one day selected so the schedule stays weekly.
+                              return next.length > 0 ? next.sort((a, b) => a - b) : prev;
+                            })
+                          }
+                          style={{ marginRight: '0.25rem' }}
+                        />
+                        {label}
+                      </label>
+                    ))}
+                    <input
+                      className="input"
+                      type="time"
+                      value={autoSyncTime}
+                      onChange={(e) => setAutoSyncTime(e.target.value)}
+                      style={{ width: 'auto' }}
+                    />
+                  </div>
+                </div>
+              )}
               <div className="button-row">
                 <button
                   type="button"
                   className="btn btn-primary"
                   disabled={autoSyncSaving}
-                  onClick={() => handleSaveAutoSync(autoSyncEnabled, autoSyncIntervalMinutes)}
+                  onClick={() => handleSaveAutoSync(autoSyncEnabled, autoSyncIntervalMinutes, autoSyncDays, autoSyncTime)}
                 >
                   {autoSyncSaving ? 'Saving…' : 'Save auto-sync settings'}
                 </button>
               </div>
+              {backendStatus?.autoSyncEnabled && backendStatus.autoSyncNextRunAt && (
+                <p className="status-text" style={{ marginTop: '0.4rem' }}>
+                  Next run: {new Date(backendStatus.autoSyncNextRunAt).toLocaleString()}
+                  {backendStatus.autoSyncLastRunAt &&
+                    ' · Last run: ' + new Date(backendStatus.autoSyncLastRunAt).toLocaleString()}
+                </p>
+              )}
               <p className="status-text" style={{ marginTop: '0.4rem' }}>
                 Auto-sync uses all courses that have a linked Todoist project. You can still run manual syncs at any
                 time.
@@ -1259,7 +2290,8 @@ export const App: React.FC = () => {
                 <div className="card-title">Assignments detection</div>
               </div>
               <div className="card-description">
-                Control how far ahead Tasklink looks in Canvas and whether to include assignments with no due date.
+                Control how far ahead Tasklink looks in Canvas, which kinds of items it imports, and whether to include
+                assignments with no due date.
               </div>
               <div className="field-group">
                 <label className="field-label">Look ahead</label>
@@ -1299,6 +2331,224 @@ export const App: React.FC = () => {
                   Include assignments with no due date
                 </label>
               </div>
+              <div className="field-group">
+                <label className="field-label">Canvas items to import</label>
+                {CANVAS_ITEM_TYPE_OPTIONS.map((option) => (
+                  <label key={option.type} style={{ fontSize: '0.85rem', display: 'block' }}>
+                    <input
+                      type="checkbox"
+                      checked={syncSettings.itemTypes.indexOf(option.type) >= 0}
+                      onChange={(e) =>
+                        void persistSyncSettings({
+                          ...syncSettings,
+                          itemTypes: CANVAS_ITEM_TYPE_OPTIONS.map((o) => o.type).filter((t) =>
+                            t === option.type ? e.target.checked : syncSettings.itemTypes.indexOf(t) >= 0,
+                          ),
+                        })
+                      }
+                      style={{ marginRight: '0.4rem' }}
+                    />
+                    {option.label}
+                  </label>
+                ))}
+              </div>
+            </section>
+
+            <section className="card">
+              <div className="card-header">
+                <div className="card-title">Todoist projects</div>
+              </div>
+              <div className="card-description">
+                Have Tasklink create a Todoist project for each course that doesn&apos;t have one, instead of mapping
+                them by hand every term. A project that already has the same name is linked rather than duplicated.
+                Courses set to &quot;No project&quot; below are left alone.
+              </div>
+              <div className="field-group">
+                <label style={{ fontSize: '0.85rem' }}>
+                  <input
+                    type="checkbox"
+                    checked={syncSettings.autoProvisionProjects}
+                    onChange={(e) => void persistSyncSettings({ ...syncSettings, autoProvisionProjects: e.target.checked })}
+                    style={{ marginRight: '0.4rem' }}
+                  />
+                  Create projects automatically when new courses are fetched from Canvas
+                </label>
+              </div>
+              <div className="field-group">
+                <label className="field-label">Project name ({'{course}'} is the course name)</label>
+                <input
+                  key={'template:' + syncSettings.projectNameTemplate}
+                  className="input"
+                  type="text"
+                  defaultValue={syncSettings.projectNameTemplate}
+                  placeholder="{course}"
+                  onBlur={(e) => {
+                    const value = e.target.value.trim();
+                    if (value === syncSettings.projectNameTemplate) return;
+                    void persistSyncSettings({ ...syncSettings, projectNameTemplate: value });
+                  }}
+                />
+              </div>
+              <div className="field-group">
+                <label className="field-label">Parent project (optional, e.g. Fall 2026)</label>
+                <input
+                  key={'parent:' + (syncSettings.projectParentName ?? '')}
+                  className="input"
+                  type="text"
+                  defaultValue={syncSettings.projectParentName ?? ''}
+                  placeholder="No parent project"
+                  onBlur={(e) => {
+                    const value = e.target.value.trim();
+                    if (value === (syncSettings.projectParentName ?? '')) return;
+                    void persistSyncSettings({ ...syncSettings, projectParentName: value || null });
+                  }}
+                />
+              </div>
+              <div className="field-group">
+                <label className="field-label">Color</label>
+                <select
+                  className="select"
+                  value={syncSettings.projectColor ?? ''}
+                  onChange={(e) => void persistSyncSettings({ ...syncSettings, projectColor: e.target.value || null })}
+                >
+                  <option value="">Todoist default</option>
+                  {TODOIST_PROJECT_COLORS.map((color) => (
+                    <option key={color.value} value={color.value}>
+                      {color.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="button-row" style={{ marginTop: '0.5rem' }}>
+                <button
+                  type="button"
+                  className="btn btn-ghost"
+                  onClick={handleProvisionProjects}
+                  disabled={provisionLoading}
+                >
+                  {provisionLoading ? 'Creating projects…' : 'Create missing projects now'}
+                </button>
+              </div>
+              {provisionResult && (
+                <p className="status-text" style={{ color: '#4ade80', marginTop: '0.4rem' }}>
+                  {provisionResult}
+                </p>
+              )}
+              {provisionError && (
+                <p className="status-text" style={{ color: '#f97373', marginTop: '0.4rem' }}>
+                  {provisionError}
+                </p>
+              )}
+            </section>
+
+            <section className="card">
+              <div className="card-header">
+                <div className="card-title">Todoist labels</div>
+              </div>
+              <div className="card-description">
+                Add a Todoist label to tasks based on what kind of Canvas item they came from. Leave a field empty for no
+                label. Labels you add yourself in Todoist are kept.
+              </div>
+              {CANVAS_ITEM_TYPE_OPTIONS.map((option) => {
+                const current = syncSettings.itemTypeLabels[option.type] ?? '';
+                return (
+                  <div className="field-group" key={option.type}>
+                    <label className="field-label">{option.label}</label>
+                    <input
+                      // Re-mount when the saved value changes so the field shows it.
+                      key={option.type + ':' + current}
+                      className="input"
+                      type="text"
+                      defaultValue={current}
+                      placeholder="No label"
+                      onBlur={(e) => {
+                        const value = e.target.value.trim();
+                        if (value === current) return;
+                        void persistSyncSettings({
+                          ...syncSettings,
+                          itemTypeLabels: { ...syncSettings.itemTypeLabels, [option.type]: value },
+                        });
+                      }}
+                    />
+                  </div>
+                );
+              })}
+            </section>
+
+            <section className="card">
+              <div className="card-header">
+                <div className="card-title">Completion &amp; edits</div>
+              </div>
+              <div className="card-description">
+                Keep Todoist in step with what you&apos;ve turned in on Canvas, and choose whether your own edits in
+                Todoist survive the next sync. These settings also apply to auto-sync.
+              </div>
+              <div className="field-group">
+                <label style={{ fontSize: '0.85rem' }}>
+                  <input
+                    type="checkbox"
+                    checked={syncSettings.closeSubmittedTasks}
+                    onChange={(e) => void persistSyncSettings({ ...syncSettings, closeSubmittedTasks: e.target.checked })}
+                    style={{ marginRight: '0.4rem' }}
+                  />
+                  Complete the Todoist task once the assignment is submitted in Canvas
+                </label>
+              </div>
+              <div className="field-group">
+                <label style={{ fontSize: '0.85rem' }}>
+                  <input
+                    type="checkbox"
+                    checked={syncSettings.reopenResubmitTasks}
+                    onChange={(e) => void persistSyncSettings({ ...syncSettings, reopenResubmitTasks: e.target.checked })}
+                    style={{ marginRight: '0.4rem' }}
+                  />
+                  Reopen the task if your instructor asks for a resubmission
+                </label>
+              </div>
+              <div className="field-group">
+                <label style={{ fontSize: '0.85rem' }}>
+                  <input
+                    type="checkbox"
+                    checked={syncSettings.useDueTime}
+                    onChange={(e) => void persistSyncSettings({ ...syncSettings, useDueTime: e.target.checked })}
+                    style={{ marginRight: '0.4rem' }}
+                  />
+                  Include the Canvas due time (e.g. quizzes that close at 9:00 AM), not just the date
+                </label>
+              </div>
+              <div className="field-group">
+                <label className="field-label">When you change a due date in Todoist</label>
+                <select
+                  className="select"
+                  value={syncSettings.dueDateConflictPolicy}
+                  onChange={(e) =>
+                    void persistSyncSettings({ ...syncSettings, dueDateConflictPolicy: e.target.value as ConflictPolicy })
+                  }
+                >
+                  <option value="CANVAS_WINS">Reset it to the Canvas due date</option>
+                  <option value="TODOIST_WINS">Keep my Todoist date</option>
+                  <option value="ONLY_EARLIER">Keep whichever date is earlier</option>
+                </select>
+              </div>
+              <div className="field-group">
+                <label className="field-label">When you change a priority in Todoist</label>
+                <select
+                  className="select"
+                  value={syncSettings.priorityConflictPolicy}
+                  onChange={(e) =>
+                    void persistSyncSettings({ ...syncSettings, priorityConflictPolicy: e.target.value as ConflictPolicy })
+                  }
+                >
+                  <option value="CANVAS_WINS">Reset it to the Tasklink priority</option>
+                  <option value="TODOIST_WINS">Keep my Todoist priority</option>
+                  <option value="ONLY_EARLIER">Keep whichever priority is higher</option>
+                </select>
+              </div>
+              {syncSettingsError && (
+                <p className="status-text" style={{ color: '#f97373', marginTop: '0.4rem' }}>
+                  {syncSettingsError}
+                </p>
+              )}
             </section>
 
             <section className="card">
@@ -1413,6 +2663,68 @@ export const App: React.FC = () => {
                 );
               })}
             </section>
+
+            <section className="card">
+              <div className="card-header">
+                <div className="card-title">Signed-in devices</div>
+              </div>
+              <div className="card-description">
+                Browsers where you&apos;re signed in to Tasklink. Sign out any device you don&apos;t recognize.
+              </div>
+              {sessionsError && (
+                <p className="status-text" style={{ color: '#f97373', marginTop: '0.4rem' }}>
+                  {sessionsError}
+                </p>
+              )}
+              {sessions.length > 0 && (
+                <table className="table" style={{ marginTop: '0.75rem' }}>
+                  <thead>
+                    <tr>
+                      <th>Device</th>
+                      <th>Last active</th>
+                      <th>Signed in</th>
+                      <th />
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {sessions.map((session) => (
+                      <tr key={session.id}>
+                        <td>
+                          {describeUserAgent(session.userAgent)}
+                          {session.ipAddress && <span className="status-text"> · {session.ipAddress}</span>}
+                          {session.current && (
+                            <span className="badge badge-ok" style={{ marginLeft: '0.4rem' }}>
+                              This device
+                            </span>
+                          )}
+                        </td>
+                        <td>{new Date(session.lastSeenAt).toLocaleString()}</td>
+                        <td>{new Date(session.createdAt).toLocaleString()}</td>
+                        <td>
+                          <button
+                            type="button"
+                            className="link-button"
+                            onClick={() => void handleRevokeSession(session)}
+                          >
+                            Sign out
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+              <div className="button-row">
+                <button
+                  type="button"
+                  className="btn btn-ghost"
+                  onClick={handleRevokeOtherSessions}
+                  disabled={sessionsLoading || !sessions.some((s) => !s.current)}
+                >
+                  Sign out all other devices
+                </button>
+              </div>
+            </section>
           </div>
         ) : (
           <div className="app-main-grid">
@@ -1429,7 +2741,7 @@ export const App: React.FC = () => {
                       Courses: {backendStatus.coursesCount} · Assignments: {backendStatus.assignmentsCount}
                     </span>
                     <span className="badge badge-pill">
-                      Auto-sync: {backendStatus.autoSyncEnabled ? backendStatus.autoSyncIntervalMinutes + ' min' : 'Off'}
+                      Auto-sync: {describeAutoSync(backendStatus)}
                     </span>
                   </div>
                 )}
@@ -1484,13 +2796,33 @@ export const App: React.FC = () => {
                   >
                     ?
                   </button>
-                  {backendStatus?.canvasConfigured && <span className="badge badge-ok">Configured</span>}
+                  {backendStatus?.canvasNeedsReconnect ? (
+                    <span className="badge badge-error">Reconnect needed</span>
+                  ) : (
+                    backendStatus?.canvasConfigured && <span className="badge badge-ok">Configured</span>
+                  )}
                 </div>
               </div>
               <div className="card-description">
                 Enter your Canvas base URL and personal access token. These are stored in your local SQLite database and
                 used only from this backend.
               </div>
+              {backendStatus?.canvasOAuthAvailable && (
+                <>
+                  <div className="button-row">
+                    <a className="btn btn-primary" href={`${API_BASE_URL}/auth/canvas/start`}>
+                      {backendStatus.canvasConnection === 'oauth' ? 'Reconnect Canvas' : 'Connect with Canvas'}
+                    </a>
+                  </div>
+                  <p className="status-text" style={{ marginTop: '0.4rem' }}>
+                    {backendStatus.canvasNeedsReconnect
+                      ? 'Your Canvas connection expired. Connect again to keep syncing.'
+                      : backendStatus.canvasConnection === 'oauth'
+                      ? 'Connected through Canvas. Tokens are refreshed automatically.'
+                      : 'Sign in through Canvas instead of pasting a token, or use a token below.'}
+                  </p>
+                </>
+              )}
               <div className="field-group">
                 <label className="field-label">Canvas base URL</label>
                 <input
@@ -1537,6 +2869,41 @@ export const App: React.FC = () => {
                   {canvasError}
                 </p>
               )}
+              {backendStatus?.canvasConfigured && (
+                <>
+                  <div className="field-group" style={{ marginTop: '0.8rem' }}>
+                    <label className="field-label">Due date timezone</label>
+                    <input
+                      className="input"
+                      type="text"
+                      value={canvasTimeZoneInput}
+                      placeholder={canvasDetectedTimeZone ?? 'e.g. America/New_York'}
+                      onChange={(e) => setCanvasTimeZoneInput(e.target.value)}
+                    />
+                  </div>
+                  <p className="status-text">
+                    {canvasTimeZone ? `Due dates are read in ${canvasTimeZone}. ` : ''}
+                    {canvasDetectedTimeZone
+                      ? `Leave empty to use your Canvas profile timezone (${canvasDetectedTimeZone}).`
+                      : 'Leave empty to use your Canvas profile timezone.'}
+                  </p>
+                  <div className="button-row">
+                    <button
+                      type="button"
+                      className="btn btn-ghost"
+                      onClick={handleSaveCanvasTimeZone}
+                      disabled={canvasTimeZoneSaving}
+                    >
+                      {canvasTimeZoneSaving ? 'Saving…' : 'Save timezone'}
+                    </button>
+                  </div>
+                  {canvasTimeZoneError && (
+                    <p className="status-text" style={{ color: '#f97373', marginTop: '0.4rem' }}>
+                      {canvasTimeZoneError}
+                    </p>
+                  )}
+                </>
+              )}
             </section>
 
             <section className="card">
@@ -1557,6 +2924,20 @@ export const App: React.FC = () => {
               <div className="card-description">
                 Enter your Todoist personal API token so Tasklink can read your projects and create tasks.
               </div>
+              {backendStatus?.todoistOAuthAvailable && (
+                <>
+                  <div className="button-row">
+                    <a className="btn btn-primary" href={`${API_BASE_URL}/auth/todoist/start`}>
+                      {backendStatus.todoistConnection === 'oauth' ? 'Reconnect Todoist' : 'Connect with Todoist'}
+                    </a>
+                  </div>
+                  <p className="status-text" style={{ marginTop: '0.4rem' }}>
+                    {backendStatus.todoistConnection === 'oauth'
+                      ? 'Connected through Todoist.'
+                      : 'Sign in through Todoist instead of pasting a token, or use a token below.'}
+                  </p>
+                </>
+              )}
               <div className="field-group">
                 <label className="field-label">Todoist personal API token</label>
                 <input
@@ -1583,6 +2964,16 @@ export const App: React.FC = () => {
               >
                 {todoistProjectsLoading ? 'Loading…' : 'Load projects'}
               </button>
+              {backendStatus?.todoistConfigured && (
+                <button
+                  type="button"
+                  className="btn btn-ghost"
+                  onClick={handleDisconnectTodoist}
+                  disabled={todoistSaving}
+                >
+                  Disconnect
+                </button>
+              )}
             </div>
             {todoistResult && (
               <p className="status-text" style={{ color: '#4ade80', marginTop: '0.4rem' }}>
@@ -1643,14 +3034,24 @@ export const App: React.FC = () => {
                         </label>
                       ))}
                   </div>
-                  <button
-                    type="button"
-                    className="btn btn-primary"
-                    onClick={handleSyncToTodoist}
-                    disabled={syncLoading || syncSelectedCourseIds.length === 0}
-                  >
-                    {syncLoading ? 'Syncing…' : 'Sync selected courses'}
-                  </button>
+                  <div className="button-row">
+                    <button
+                      type="button"
+                      className="btn btn-primary"
+                      onClick={() => void handleSyncToTodoist()}
+                      disabled={syncLoading || syncSelectedCourseIds.length === 0}
+                    >
+                      {syncLoading ? 'Syncing…' : 'Sync selected courses'}
+                    </button>
+                    <button
+                      type="button"
+                      className="btn btn-ghost"
+                      onClick={handlePreviewSync}
+                      disabled={syncPreviewLoading || syncLoading || syncSelectedCourseIds.length === 0}
+                    >
+                      {syncPreviewLoading ? 'Preparing preview…' : 'Preview changes'}
+                    </button>
+                  </div>
                 </div>
               )}
             </section>
@@ -1710,6 +3111,7 @@ export const App: React.FC = () => {
                     <tr>
                       <th>Course</th>
                       <th>Linked Todoist project</th>
+                      <th>Due times</th>
                     </tr>
                   </thead>
                   <tbody>
@@ -1732,6 +3134,24 @@ export const App: React.FC = () => {
                             ))}
                           </select>
                         </td>
+                        <td>
+                          <select
+                            className="select"
+                            value={c.useDueTime === null ? 'default' : c.useDueTime ? 'time' : 'date'}
+                            onChange={(e) =>
+                              void handleUpdateCourseDueTime(
+                                c.id,
+                                e.target.value === 'default' ? null : e.target.value === 'time',
+                              )
+                            }
+                          >
+                            <option value="default">
+                              Default ({syncSettings.useDueTime ? 'date and time' : 'date only'})
+                            </option>
+                            <option value="date">Date only</option>
+                            <option value="time">Date and time</option>
+                          </select>
+                        </td>
                       </tr>
                     ))}
                   </tbody>
@@ -1743,7 +3163,10 @@ export const App: React.FC = () => {
               <div className="card-header">
                 <div className="card-title">Sync history</div>
               </div>
-              <div className="card-description">Recent syncs with Todoist (manual or auto-sync).</div>
+              <div className="card-description">
+                Recent Canvas fetches and syncs with Todoist (manual or auto-sync). Open a run&apos;s details to see what
+                happened to each assignment.
+              </div>
               <div className="button-row">
                 <button
                   type="button"
@@ -1769,8 +3192,10 @@ export const App: React.FC = () => {
                   <thead>
                     <tr>
                       <th>When</th>
+                      <th>Type</th>
                       <th>Status</th>
                       <th>Message</th>
+                      <th />
                     </tr>
                   </thead>
                   <tbody>
@@ -1780,14 +3205,22 @@ export const App: React.FC = () => {
                           ? 'tag-success'
                           : run.status === 'ERROR'
                           ? 'tag-error'
+                          : run.status === 'PARTIAL'
+                          ? 'tag-partial'
                           : 'tag-running';
                       return (
                         <tr key={run.id}>
                           <td>{new Date(run.startedAt).toLocaleString()}</td>
+                          <td>{run.kind === 'CANVAS_FETCH' ? 'Canvas fetch' : 'Todoist sync'}</td>
                           <td>
                             <span className={'tag ' + statusClass}>{run.status}</span>
                           </td>
                           <td>{run.message ?? '—'}</td>
+                          <td>
+                            <button type="button" className="link-button" onClick={() => void loadSyncRunDetails(run)}>
+                              Details
+                            </button>
+                          </td>
                         </tr>
                       );
                     })}
@@ -1826,7 +3259,9 @@ export const App: React.FC = () => {
                     <tr>
                       <th>Course</th>
                       <th>Assignment</th>
+                      <th>Type</th>
                       <th>Due date</th>
+                      <th>Canvas</th>
                       <th>Sync</th>
                       <th>Priority</th>
                     </tr>
@@ -1838,10 +3273,18 @@ export const App: React.FC = () => {
                         <tr key={a.id}>
                           <td>{a.courseName}</td>
                           <td>{a.name}</td>
+                          <td>{CANVAS_ITEM_TYPE_OPTIONS.find((o) => o.type === a.itemType)?.label ?? a.itemType}</td>
                           <td>{a.dueDate ? new Date(a.dueDate).toLocaleDateString() : 'No due date'}</td>
+                          <td>{a.submissionState ?? '—'}</td>
                           <td>
                             <span className={'tag ' + (a.synced ? 'tag-synced' : 'tag-unsynced')}>
-                              {a.synced ? 'Synced' : 'Not synced'}
+                              {a.deletedInTodoist
+                                ? 'Deleted in Todoist'
+                                : a.completedInTodoist
+                                ? 'Completed'
+                                : a.synced
+                                ? 'Synced'
+                                : 'Not synced'}
                             </span>
                           </td>
                           <td>
@@ -1857,6 +3300,227 @@ export const App: React.FC = () => {
           </div>
         </div>
         )}
+        {syncPreview && (
+          <div className="help-modal-backdrop" onClick={() => setSyncPreview(null)}>
+            <div
+              className="help-modal help-modal--wide"
+              onClick={(e) => {
+                e.stopPropagation();
+              }}
+            >
+              <div className="help-modal-header">
+                <button
+                  type="button"
+                  className="icon-button"
+                  onClick={() => setSyncPreview(null)}
+                >
+                  ✕ Close
+                </button>
+                <div className="help-modal-title">Review Todoist changes</div>
+              </div>
+              <div className="help-modal-body">
+                <p>
+                  Nothing has been sent to Todoist yet. Uncheck anything you don&apos;t want to push, then apply the
+                  rest.
+                </p>
+                {syncPreview.length === 0 && <p className="status-text">There is nothing to sync for these courses.</p>}
+                {syncPreview.length > 0 && (
+                  <table className="table">
+                    <thead>
+                      <tr>
+                        <th />
+                        <th>Course</th>
+                        <th>Assignment</th>
+                        <th>Change</th>
+                        <th>Due date</th>
+                        <th>Priority</th>
+                        <th>Notes</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {syncPreview.map((change) => {
+                        const formatDate = (value: string | null) =>
+                          value ? new Date(value).toLocaleDateString() : '—';
+                        const formatPriority = (value: number | null) => (value ? 'P' + (5 - value) : '—');
+                        const actionLabel =
+                          change.action === 'CREATE'
+                            ? 'Create task'
+                            : change.action === 'LINK'
+                            ? 'Link by title'
+                            : change.action === 'UPDATE'
+                            ? 'Update task'
+                            : change.action === 'CLOSE'
+                            ? 'Complete task'
+                            : change.action === 'REOPEN'
+                            ? 'Reopen task'
+                            : 'Skip';
+                        const dueChanged = change.dueDateBefore !== null && change.dueDateBefore !== change.dueDateAfter;
+                        const priorityChanged =
+                          change.priorityBefore !== null && change.priorityBefore !== change.priorityAfter;
+                        return (
+                          <tr key={change.assignmentId}>
+                            <td>
+                              <input
+                                type="checkbox"
+                                disabled={change.action === 'SKIP'}
+                                checked={syncPreviewSelectedIds.indexOf(change.assignmentId) >= 0}
+                                onChange={(e) =>
+                                  setSyncPreviewSelectedIds((prev) =>
+                                    e.target.checked
+                                      ? prev.concat(change.assignmentId)
+                                      : prev.filter((id) => id !== change.assignmentId),
+                                  )
+                                }
+                              />
+                            </td>
+                            <td>{change.courseName ?? '—'}</td>
+                            <td>{change.assignmentName}</td>
+                            <td>
+                              <span className={'tag ' + (change.action === 'SKIP' ? 'tag-unsynced' : 'tag-synced')}>
+                                {actionLabel}
+                              </span>
+                            </td>
+                            <td>
+                              {dueChanged
+                                ? formatDate(change.dueDateBefore) + ' → ' + formatDate(change.dueDateAfter)
+                                : formatDate(change.dueDateAfter)}
+                              {change.dueTimeAfter &&
+                                ' ' +
+                                  new Date(change.dueTimeAfter).toLocaleTimeString([], {
+                                    hour: 'numeric',
+                                    minute: '2-digit',
+                                  })}
+                            </td>
+                            <td>
+                              {priorityChanged
+                                ? formatPriority(change.priorityBefore) + ' → ' + formatPriority(change.priorityAfter)
+                                : formatPriority(change.priorityAfter)}
+                            </td>
+                            <td>
+                              {change.reason ?? '—'}
+                              {change.conflict && (
+                                <div style={{ color: '#facc15', fontSize: '0.8rem' }}>Conflict: {change.conflict}</div>
+                              )}
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                )}
+                <div className="button-row" style={{ marginTop: '0.75rem' }}>
+                  <button
+                    type="button"
+                    className="btn btn-primary"
+                    disabled={syncLoading || syncPreviewSelectedIds.length === 0}
+                    onClick={() => void handleSyncToTodoist(syncPreviewSelectedIds)}
+                  >
+                    {syncLoading ? 'Syncing…' : `Apply ${syncPreviewSelectedIds.length} change(s)`}
+                  </button>
+                  <button type="button" className="btn btn-ghost" onClick={() => setSyncPreview(null)}>
+                    Cancel
+                  </button>
+                </div>
+              </div>
+            </div>
+          </div>
+        )}
+        {selectedSyncRun && (
+          <div className="help-modal-backdrop" onClick={() => setSelectedSyncRun(null)}>
+            <div
+              className="help-modal help-modal--wide"
+              onClick={(e) => {
+                e.stopPropagation();
+              }}
+            >
+              <div className="help-modal-header">
+                <button
+                  type="button"
+                  className="icon-button"
+                  onClick={() => setSelectedSyncRun(null)}
+                >
+                  ✕ Close
+                </button>
+                <div className="help-modal-title">
+                  {selectedSyncRun.kind === 'CANVAS_FETCH' ? 'Canvas fetch' : 'Todoist sync'} ·{' '}
+                  {new Date(selectedSyncRun.startedAt).toLocaleString()}
+                </div>
+              </div>
+              <div className="help-modal-body">
+                {selectedSyncRun.message && <p>{selectedSyncRun.message}</p>}
+                {selectedSyncRun.retries > 0 && (
+                  <p className="status-text">
+                    Retried {selectedSyncRun.retries} request(s) after temporary Canvas or Todoist errors.
+                  </p>
+                )}
+                {syncRunItemsLoading && <p className="status-text">Loading details…</p>}
+                {syncRunItemsError && (
+                  <p className="status-text" style={{ color: '#f97373' }}>
+                    {syncRunItemsError}
+                  </p>
+                )}
+                {!syncRunItemsLoading && !syncRunItemsError && syncRunItems.length === 0 && (
+                  <p className="status-text">No per-assignment details were recorded for this run.</p>
+                )}
+                {syncRunItems.length > 0 && (
+                  <table className="table">
+                    <thead>
+                      <tr>
+                        <th>Course</th>
+                        <th>Assignment</th>
+                        <th>Action</th>
+                        <th>Due date</th>
+                        <th>Priority</th>
+                        <th>Reason</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {syncRunItems.map((item) => {
+                        const formatDate = (value: string | null) =>
+                          value ? new Date(value).toLocaleDateString() : '—';
+                        const formatPriority = (value: number | null) => (value ? 'P' + (5 - value) : '—');
+                        const dueChanged = item.dueDateBefore !== item.dueDateAfter && item.dueDateBefore !== null;
+                        const priorityChanged =
+                          item.priorityBefore !== item.priorityAfter && item.priorityBefore !== null;
+                        const actionClass =
+                          item.action === 'FAILED'
+                            ? 'tag-error'
+                            : item.action === 'SKIPPED'
+                            ? 'tag-unsynced'
+                            : 'tag-success';
+                        return (
+                          <tr key={item.id}>
+                            <td>{item.courseName ?? '—'}</td>
+                            <td>{item.assignmentName ?? '—'}</td>
+                            <td>
+                              <span className={'tag ' + actionClass}>{item.action}</span>
+                            </td>
+                            <td>
+                              {dueChanged
+                                ? formatDate(item.dueDateBefore) + ' → ' + formatDate(item.dueDateAfter)
+                                : formatDate(item.dueDateAfter)}
+                            </td>
+                            <td>
+                              {priorityChanged
+                                ? formatPriority(item.priorityBefore) + ' → ' + formatPriority(item.priorityAfter)
+                                : formatPriority(item.priorityAfter)}
+                            </td>
+                            <td>
+                              {item.reason ?? '—'}
+                              {item.conflict && (
+                                <div style={{ color: '#facc15', fontSize: '0.8rem' }}>Conflict: {item.conflict}</div>
+                              )}
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+            </div>
+          </div>
+        )}
         {helpTopic && (
           <div className="help-modal-backdrop" onClick={() => setHelpTopic(null)}>
             <div